@@ -1,38 +1,118 @@
 
-import React, { useState, useCallback, useRef } from 'react';
-import { ParsedMusic } from './types';
-import { parseSheetMusic, extractTextFromImage, convertToSolfa } from './services/geminiService';
-import { SoundEngine } from './services/soundEngine';
+import React, { useState, useCallback, useRef, useMemo, useEffect } from 'react';
+import { Measure, ParsedMusic } from './types';
+import { createGeminiProvider } from './services/geminiService';
+import { LocalTranscriptionProvider } from './services/localTranscription';
+import { TranscriptionProgress, TranscriptionProvider } from './services/transcriptionProvider';
+import { TranscriptionError, toTranscriptionError } from './services/transcriptionErrors';
+import { TranscriptionCache } from './services/transcriptionCache';
+import { PlaybackPosition, SoundEngine } from './services/soundEngine';
+import { MixSettings } from './services/mixer';
+import { MidiAccessRequest, WebMidiEngine, mergeRecording } from './services/webMidi';
 import { exportToWav, exportToMidi } from './services/exportService';
-import { SolfegeParser } from './services/solfegeParser';
+import { SolfegeParser, ParsedSolfaScore, SolfaInputFormat } from './services/solfegeParser';
+import { locateSolfaNote, solfaScoreToParsedMusic } from './services/solfaConverter';
+import { serializeToSolfa } from './services/solfaSerializer';
+import { getVoiceLayout } from './services/voiceLayouts';
 import { MIDIGenerator } from './services/midiGenerator';
+import { MIDIReader } from './services/midiReader';
+import { validateScore } from './services/scoreValidator';
+import { MeasureRepair } from './services/scoreRepair';
+import { findUncertainMeasures } from './services/scoreConfidence';
 import { uint8ArrayToBase64 } from './services/utils';
 import Header from './components/Header';
 import Controls from './components/Controls';
 import SheetMusicViewer from './components/SheetMusicViewer';
 import SATBDebugViewer from './components/SATBDebugViewer';
+import ScoreIssuesPanel from './components/ScoreIssuesPanel';
+import ConfidenceReviewPanel from './components/ConfidenceReviewPanel';
+import ErrorNotice from './components/ErrorNotice';
+import CacheInspector from './components/CacheInspector';
+import MidiPanel from './components/MidiPanel';
 import Loader from './components/Loader';
 import CameraCapture from './components/CameraCapture';
 
-const App: React.FC = () => {
+// `?provider=local` or `?provider=gemini` picks the backend; without either, Gemini is used when a key is configured.
+const chooseTranscriptionProvider = (cache: TranscriptionCache): TranscriptionProvider => {
+  const requested = new URLSearchParams(window.location.search).get('provider');
+  if (requested === 'local' || (requested !== 'gemini' && !process.env.API_KEY)) {
+    return new LocalTranscriptionProvider();
+  }
+  return createGeminiProvider(process.env.API_KEY, cache);
+};
+
+interface AppProps {
+  transcriptionProvider?: TranscriptionProvider;
+  requestMidiAccess?: MidiAccessRequest;
+}
+
+const App: React.FC<AppProps> = ({ transcriptionProvider, requestMidiAccess }) => {
   const [parsedMusic, setParsedMusic] = useState<ParsedMusic | null>(null);
+  const [partialMusic, setPartialMusic] = useState<ParsedMusic | null>(null); // the score so far while a transcription streams in
   const [isLoading, setIsLoading] = useState<boolean>(false);
-  const [isConverting, setIsConverting] = useState<boolean>(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<TranscriptionError | null>(null);
   const [isPlaying, setIsPlaying] = useState<boolean>(false);
   const [playbackTempo, setPlaybackTempo] = useState<number>(120);
-  const [satbDebugData, setSatbDebugData] = useState<any | null>(null);
+  const [satbDebugData, setSatbDebugData] = useState<ParsedSolfaScore | null>(null);
+  const [solfaSourceText, setSolfaSourceText] = useState<string>(''); // the text satbDebugData was parsed from
+  const [playbackPositions, setPlaybackPositions] = useState<Record<string, PlaybackPosition>>({}); // latest, by part name
+  const [repairs, setRepairs] = useState<MeasureRepair[]>([]);
+  const [importWarnings, setImportWarnings] = useState<string[]>([]);
   const [selectedPart, setSelectedPart] = useState<string>('All');
+  const [selectedSection, setSelectedSection] = useState<string>('All');
+  const [focusedMeasure, setFocusedMeasure] = useState<number | null>(null);
+  const [importedKey, setImportedKey] = useState<string | undefined>(undefined);
   const [notationText, setNotationText] = useState<string>('');
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [loadingMessage, setLoadingMessage] = useState<string>('AI is parsing your music...');
   const [isCameraOpen, setIsCameraOpen] = useState<boolean>(false);
+  const [cache] = useState(() => new TranscriptionCache());
+  const [provider] = useState<TranscriptionProvider>(() => transcriptionProvider ?? chooseTranscriptionProvider(cache));
+  const [bypassCache, setBypassCache] = useState<boolean>(false);
+  const [midiEngine] = useState(() => new WebMidiEngine(requestMidiAccess));
+  const [midiOutputId, setMidiOutputId] = useState<string>('');
+  const [mix, setMix] = useState<MixSettings>({});
 
 
   const soundEngineRef = useRef<SoundEngine | null>(null);
   const parserRef = useRef(new SolfegeParser());
   const abortControllerRef = useRef<AbortController | null>(null);
+
+  // AI output is taken as-is, so every score is checked before it is played or exported.
+  const scoreIssues = useMemo(() => parsedMusic ? validateScore(parsedMusic) : [], [parsedMusic]);
+  const uncertainMeasures = useMemo(() => parsedMusic ? findUncertainMeasures(parsedMusic) : [], [parsedMusic]);
+
+  const handlePosition = useCallback((position: PlaybackPosition) => {
+    setPlaybackPositions(current => ({ ...current, [position.partName]: position }));
+  }, []);
+
+  useEffect(() => {
+    midiEngine.setPositionListener(handlePosition);
+    return () => midiEngine.setPositionListener(null);
+  }, [midiEngine, handlePosition]);
+
+  // The viewer shows the first part; while another part plays alone, its position still moves the view.
+  const viewerPosition = parsedMusic && (playbackPositions[parsedMusic.parts[0]?.partName] ?? Object.values<PlaybackPosition>(playbackPositions)[0]) || null;
+
+  // Played notes are traced back to the sol-fa they came from, as long as that text hasn't been edited since.
+  const playingSolfa = useMemo(() => {
+    if (!satbDebugData) return [];
+    return Object.values<PlaybackPosition>(playbackPositions)
+      .map(position => locateSolfaNote(satbDebugData, position.partName, position.measureIndex, position.noteIndex))
+      .filter(location => location !== null);
+  }, [satbDebugData, playbackPositions]);
+  const playingTokens = notationText === solfaSourceText
+    ? playingSolfa.flatMap(location => location.note.source ? [location.note.source] : [])
+    : [];
   
+  const handleProgress = useCallback((progress: TranscriptionProgress) => {
+    setPartialMusic(progress.partial);
+    const page = progress.pageCount ? `Page ${progress.page} of ${progress.pageCount}: ` : '';
+    const part = progress.partName ? ` (${progress.partName})` : '';
+    const stage = progress.repairRound ? `Repairing, round ${progress.repairRound}` : 'Parsed';
+    setLoadingMessage(`${page}${stage}: ${progress.measuresParsed} measure(s) so far${part}...`);
+  }, []);
+
   const handleExtractText = useCallback(async (file: File) => {
     setIsLoading(true);
     setLoadingMessage('Extracting text from image...');
@@ -42,28 +122,32 @@ const App: React.FC = () => {
     abortControllerRef.current = new AbortController();
 
     try {
-      const extractedText = await extractTextFromImage(file, { signal: abortControllerRef.current.signal });
+      const extractedText = await provider.extractText(file, { signal: abortControllerRef.current.signal, bypassCache });
       setNotationText(extractedText);
       setSelectedFile(null); // Clear the file after extraction, as its content is now in the textarea
     } catch (err) {
-      if (err instanceof DOMException && err.name === 'AbortError') {
+      const failure = toTranscriptionError(err);
+      if (failure.kind === 'cancelled') {
         console.log('Text extraction cancelled by user.');
         setError(null);
       } else {
-        setError(err instanceof Error ? err.message : 'Failed to extract text from image.');
+        setError(failure);
       }
     } finally {
       setIsLoading(false);
       setLoadingMessage('AI is parsing your music...');
     }
-  }, []);
+  }, [provider, bypassCache]);
 
-  const handleImport = useCallback(async (notation: string, file?: File, format?: string, key?: string) => {
+  const handleImport = useCallback(async (notation: string, format?: SolfaInputFormat, key?: string, layoutId?: string) => {
     setIsLoading(true);
     setLoadingMessage('AI is parsing your music...');
     setError(null);
     setParsedMusic(null);
     setSatbDebugData(null);
+    setRepairs([]);
+    setImportWarnings([]);
+    setImportedKey(undefined);
     if (isPlaying) {
       soundEngineRef.current?.stop();
       setIsPlaying(false);
@@ -72,67 +156,203 @@ const App: React.FC = () => {
     abortControllerRef.current = new AbortController();
 
     try {
+      let result: ParsedMusic | null = null;
       if (notation && SolfegeParser.isSolfege(notation)) {
-        const parsedData = parserRef.current.parse(notation, key);
-        setSatbDebugData(parsedData);
+        const solfaScore = parserRef.current.parse(notation, key, getVoiceLayout(layoutId), format);
+
+        // Sol-fa is parsed locally, so it imports without a network connection. When lines couldn't be
+        // placed in their parts, the provider gets a go rather than the wrong score being kept.
+        const solfaMusic = solfaScoreToParsedMusic(solfaScore);
+        if (solfaScore.isPlaced && solfaMusic.parts.length > 0) {
+          setSatbDebugData(solfaScore);
+          setSolfaSourceText(notation);
+          // The key selector follows a "Doh is ..." line, so MIDI export and re-conversion use the piece's key.
+          setImportedKey(solfaScore.keyName);
+          result = solfaMusic;
+        }
       }
 
-      const result = await parseSheetMusic(notation, { signal: abortControllerRef.current.signal });
+      if (!result) {
+        const transcription = await provider.parseMusic(notation, { signal: abortControllerRef.current.signal, bypassCache, onProgress: handleProgress });
+        result = transcription.music;
+        setRepairs(transcription.repairs);
+      }
       setParsedMusic(result);
       setPlaybackTempo(result.tempo);
       setSelectedPart('All');
+      setSelectedSection('All');
+      setFocusedMeasure(null);
     } catch (err) {
-      if (err instanceof DOMException && err.name === 'AbortError') {
+      const failure = toTranscriptionError(err);
+      if (failure.kind === 'cancelled') {
         console.log('Parsing cancelled by user.');
         setError(null);
       } else {
         console.error(err);
-        setError(err instanceof Error ? err.message : 'An unknown error occurred.');
+        setError(failure);
       }
     } finally {
       setIsLoading(false);
+      setPartialMusic(null);
+    }
+  }, [isPlaying, provider, bypassCache, handleProgress]);
+
+  const handleTranscribeFile = useCallback(async (file: File) => {
+    setIsLoading(true);
+    setLoadingMessage(file.type === 'application/pdf' ? 'AI is reading every page of your PDF...' : 'AI is reading your score...');
+    setError(null);
+    setParsedMusic(null);
+    setSatbDebugData(null);
+    setRepairs([]);
+    setImportWarnings([]);
+    setImportedKey(undefined);
+    if (isPlaying) {
+      soundEngineRef.current?.stop();
+      setIsPlaying(false);
+    }
+
+    abortControllerRef.current = new AbortController();
+
+    try {
+      const transcription = await provider.transcribeScore(file, { signal: abortControllerRef.current.signal, bypassCache, onProgress: handleProgress });
+      setParsedMusic(transcription.music);
+      setRepairs(transcription.repairs);
+      setPlaybackTempo(transcription.music.tempo);
+      setSelectedPart('All');
+      setSelectedSection('All');
+      setFocusedMeasure(null);
+      setSelectedFile(null);
+    } catch (err) {
+      const failure = toTranscriptionError(err);
+      if (failure.kind === 'cancelled') {
+        console.log('Score reading cancelled by user.');
+        setError(null);
+      } else {
+        console.error(err);
+        setError(failure);
+      }
+    } finally {
+      setIsLoading(false);
+      setPartialMusic(null);
+      setLoadingMessage('AI is parsing your music...');
+    }
+  }, [isPlaying, provider, bypassCache, handleProgress]);
+
+  // MIDI files are read locally, so they import without the AI or a network connection.
+  const handleImportMidi = useCallback(async (file: File) => {
+    setError(null);
+    setSatbDebugData(null);
+    setRepairs([]);
+    setImportWarnings([]);
+    setImportedKey(undefined);
+    if (isPlaying) {
+      soundEngineRef.current?.stop();
+      setIsPlaying(false);
+    }
+
+    try {
+      const { music, key, warnings } = new MIDIReader().readMIDI(new Uint8Array(await file.arrayBuffer()));
+      setParsedMusic(music);
+      setImportWarnings(warnings);
+      setPlaybackTempo(music.tempo);
+      setImportedKey(key);
+      setSelectedPart('All');
+      setSelectedSection('All');
+      setFocusedMeasure(null);
+      setSelectedFile(null);
+    } catch (err) {
+      console.error(err);
+      setParsedMusic(null);
+      setError(new TranscriptionError('unsupported-input', err instanceof Error ? err.message : 'The MIDI file could not be read.'));
     }
   }, [isPlaying]);
 
-  const handleConvertToSolfa = useCallback(async (key: string) => {
+  const handleConvertToSolfa = useCallback((key: string) => {
     if (!parsedMusic) return;
-    setIsConverting(true);
     setError(null);
     try {
-      const solfaText = await convertToSolfa(parsedMusic, key);
-      setNotationText(solfaText);
+      const { text, warnings } = serializeToSolfa(parsedMusic, key);
+      setNotationText(text);
+      setImportWarnings(warnings);
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to convert to Tonic Sol-fa.');
-    } finally {
-      setIsConverting(false);
+      setError(new TranscriptionError('unsupported-input', err instanceof Error ? err.message : 'The score could not be written as sol-fa.'));
     }
   }, [parsedMusic]);
 
   const handlePlay = useCallback(async () => {
     if (!parsedMusic) return;
 
+    const handleEnded = () => {
+      setIsPlaying(false);
+      setPlaybackPositions({});
+    };
+    setPlaybackPositions({});
+
+    if (midiOutputId) {
+      setIsPlaying(true);
+      midiEngine.play(parsedMusic, playbackTempo, midiOutputId, handleEnded, selectedPart, selectedSection, mix);
+      return;
+    }
+
     if (!soundEngineRef.current) {
       soundEngineRef.current = new SoundEngine();
+      soundEngineRef.current.setPositionListener(handlePosition);
     }
     
     setIsPlaying(true);
-    await soundEngineRef.current.play(parsedMusic, playbackTempo, () => setIsPlaying(false), selectedPart);
-  }, [parsedMusic, playbackTempo, selectedPart]);
+    await soundEngineRef.current.play(parsedMusic, playbackTempo, handleEnded, selectedPart, selectedSection, mix);
+  }, [parsedMusic, playbackTempo, selectedPart, selectedSection, midiOutputId, midiEngine, mix, handlePosition]);
+
+  const handleMixChange = useCallback((newMix: MixSettings) => {
+    setMix(newMix);
+    soundEngineRef.current?.setMix(newMix);
+    midiEngine.setMix(newMix);
+  }, [midiEngine]);
 
   const handleStop = useCallback(() => {
     soundEngineRef.current?.stop();
+    midiEngine.stop();
     setIsPlaying(false);
-  }, []);
+    setPlaybackPositions({});
+  }, [midiEngine]);
+
+  const handleMidiOutputChange = useCallback((outputId: string) => {
+    soundEngineRef.current?.stop();
+    midiEngine.stop();
+    setIsPlaying(false);
+    setPlaybackPositions({});
+    setMidiOutputId(outputId);
+  }, [midiEngine]);
+
+  // Keyboard takes go into the selected part, or a part of their own when all parts are shown.
+  const recordPartName = selectedPart !== 'All' ? selectedPart : 'Keyboard';
+  const recordStartMeasure = focusedMeasure ?? 0;
+
+  const handleRecorded = useCallback((measures: Measure[]) => {
+    const merged = mergeRecording(parsedMusic, measures, recordPartName, recordStartMeasure, playbackTempo);
+    setParsedMusic(merged);
+    setSatbDebugData(null);
+    setError(null);
+    if (!parsedMusic) {
+      setSelectedPart('All');
+      setSelectedSection('All');
+    }
+  }, [parsedMusic, recordPartName, recordStartMeasure, playbackTempo]);
 
   const handleExportWav = useCallback(() => {
     if (!parsedMusic) return;
-    exportToWav(parsedMusic, playbackTempo, selectedPart);
-  }, [parsedMusic, playbackTempo, selectedPart]);
+    exportToWav(parsedMusic, playbackTempo, selectedPart, mix);
+  }, [parsedMusic, playbackTempo, selectedPart, mix]);
   
-  const handleExportMidi = useCallback(() => {
+  const handleExportMidi = useCallback((key: string) => {
     if (!parsedMusic) return;
     const midiGenerator = new MIDIGenerator();
-    const midiData = midiGenerator.generateMIDI(parsedMusic.parts, parsedMusic.tempo, selectedPart);
+    // Exported at the tempo it plays at, as the WAV export is.
+    const midiData = midiGenerator.generateMIDI(parsedMusic.parts, playbackTempo, selectedPart, {
+      ppq: 480, // the usual DAW resolution, so triplets and dotted sixteenths land on whole ticks
+      timeSignature: parsedMusic.timeSignature,
+      key,
+    });
     if (midiData.length === 0) {
       alert("Could not generate MIDI. The selected part may be empty.");
       return;
@@ -149,6 +369,10 @@ const App: React.FC = () => {
     setSelectedPart(newPart);
   }, []);
 
+  const handleSectionChange = useCallback((newSection: string) => {
+    setSelectedSection(newSection);
+  }, []);
+
   const handleCancel = useCallback(() => {
     abortControllerRef.current?.abort();
   }, []);
@@ -177,7 +401,11 @@ const App: React.FC = () => {
           <Controls 
             onImport={handleImport}
             onExtractText={handleExtractText}
+            onTranscribeFile={handleTranscribeFile}
+            onImportMidi={handleImportMidi}
+            suggestedKey={importedKey}
             notationText={notationText}
+            playingTokens={playingTokens}
             onNotationTextChange={setNotationText}
             selectedFile={selectedFile}
             onSelectedFileChange={setSelectedFile}
@@ -190,19 +418,38 @@ const App: React.FC = () => {
             isMusicLoaded={!!parsedMusic}
             isPlaying={isPlaying}
             isLoading={isLoading}
-            isConverting={isConverting}
             tempo={playbackTempo}
             onTempoChange={handleTempoChange}
             parts={parsedMusic?.parts?.map(p => p.partName) || []}
             selectedPart={selectedPart}
             onPartChange={handlePartChange}
+            sections={parsedMusic?.sections?.map(s => s.name) || []}
+            selectedSection={selectedSection}
+            onSectionChange={handleSectionChange}
+            mix={mix}
+            onMixChange={handleMixChange}
+          />
+          <MidiPanel
+            engine={midiEngine}
+            outputId={midiOutputId}
+            onOutputChange={handleMidiOutputChange}
+            tempo={playbackTempo}
+            timeSignature={parsedMusic?.timeSignature ?? '4/4'}
+            recordTarget={`${recordPartName} from measure ${recordStartMeasure + 1}`}
+            onRecorded={handleRecorded}
           />
         </div>
         <div className="xl:w-2/3 w-full flex-grow flex flex-col">
             <div className="bg-gray-800/50 rounded-lg shadow-2xl p-6 border border-gray-700 min-h-[400px] flex items-center justify-center flex-grow">
-              {isLoading && <Loader message={loadingMessage} onCancel={handleCancel} />}
-              {error && <div className="text-red-400 text-center">{error}</div>}
-              {!isLoading && !error && parsedMusic && <SheetMusicViewer music={parsedMusic} />}
+              {isLoading && !partialMusic && <Loader message={loadingMessage} onCancel={handleCancel} />}
+              {isLoading && partialMusic && (
+                <div className="w-full flex flex-col gap-6">
+                  <Loader message={loadingMessage} onCancel={handleCancel} />
+                  <SheetMusicViewer music={partialMusic} />
+                </div>
+              )}
+              {error && <ErrorNotice error={error} />}
+              {!isLoading && !error && parsedMusic && <SheetMusicViewer music={parsedMusic} issues={scoreIssues} uncertain={uncertainMeasures} focusedMeasure={focusedMeasure} playback={viewerPosition} />}
               {!isLoading && !error && !parsedMusic && (
                 <div className="text-center text-gray-500">
                   <p className="text-xl">Welcome to Mark II</p>
@@ -210,7 +457,10 @@ const App: React.FC = () => {
                 </div>
               )}
             </div>
-            {satbDebugData && <SATBDebugViewer data={satbDebugData} />}
+            <ScoreIssuesPanel issues={scoreIssues} repairs={repairs} importWarnings={importWarnings} />
+            <ConfidenceReviewPanel uncertain={uncertainMeasures} focusedMeasure={focusedMeasure} onSelectMeasure={setFocusedMeasure} />
+            <CacheInspector cache={cache} bypassCache={bypassCache} onBypassCacheChange={setBypassCache} refreshToken={isLoading} />
+            {satbDebugData && <SATBDebugViewer data={satbDebugData} playing={playingSolfa} />}
         </div>
       </main>
     </div>
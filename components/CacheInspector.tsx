@@ -0,0 +1,86 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { CacheEntry, TranscriptionCache } from '../services/transcriptionCache';
+
+interface CacheInspectorProps {
+    cache: TranscriptionCache;
+    bypassCache: boolean;
+    onBypassCacheChange: (bypass: boolean) => void;
+    refreshToken?: unknown; // entries are reloaded whenever this changes, e.g. after an import
+}
+
+const KIND_LABELS: Record<CacheEntry['kind'], string> = {
+    text: 'Image text',
+    music: 'Score',
+};
+
+const CacheInspector: React.FC<CacheInspectorProps> = ({ cache, bypassCache, onBypassCacheChange, refreshToken }) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const [entries, setEntries] = useState<CacheEntry[]>([]);
+
+    const loadEntries = useCallback(async () => {
+        setEntries(await cache.list());
+    }, [cache]);
+
+    useEffect(() => {
+        if (isOpen) loadEntries();
+    }, [isOpen, loadEntries, refreshToken]);
+
+    const handleDelete = async (key: string) => {
+        await cache.delete(key);
+        await loadEntries();
+    };
+
+    const handleClear = async () => {
+        await cache.clear();
+        await loadEntries();
+    };
+
+    return (
+        <div className="mt-6 p-4 bg-gray-800/60 rounded-lg border border-gray-700 shadow-xl text-sm">
+            <div className="flex items-center justify-between gap-4">
+                <button onClick={() => setIsOpen(!isOpen)} className="text-lg font-semibold text-teal-400 hover:text-teal-300">
+                    {isOpen ? '▾' : '▸'} AI Cache
+                </button>
+                <label className="flex items-center gap-2 text-gray-300">
+                    <input
+                        type="checkbox"
+                        checked={bypassCache}
+                        onChange={(e) => onBypassCacheChange(e.target.checked)}
+                        className="accent-teal-500"
+                    />
+                    Bypass cache
+                </label>
+            </div>
+            {isOpen && (
+                <div className="mt-3">
+                    {entries.length === 0 ? (
+                        <p className="text-gray-500">No cached transcriptions.</p>
+                    ) : (
+                        <>
+                            <ul className="max-h-48 overflow-auto space-y-1">
+                                {entries.map(entry => (
+                                    <li key={entry.key} className="flex items-center justify-between gap-2 text-gray-300">
+                                        <span className="truncate" title={entry.label}>
+                                            <span className="text-gray-500">{KIND_LABELS[entry.kind]}:</span> {entry.label || '(untitled)'}
+                                        </span>
+                                        <span className="flex items-center gap-2 shrink-0">
+                                            <span className="text-xs text-gray-500">{new Date(entry.createdAt).toLocaleString()}</span>
+                                            <button onClick={() => handleDelete(entry.key)} className="text-red-400 hover:text-red-300" aria-label={`Remove ${entry.label}`}>
+                                                ✕
+                                            </button>
+                                        </span>
+                                    </li>
+                                ))}
+                            </ul>
+                            <button onClick={handleClear} className="mt-3 px-3 py-1 bg-gray-700 hover:bg-gray-600 rounded-md text-gray-200">
+                                Clear all
+                            </button>
+                        </>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default CacheInspector;
@@ -0,0 +1,36 @@
+import React from 'react';
+import { UncertainMeasure } from '../services/scoreConfidence';
+
+interface ConfidenceReviewPanelProps {
+    uncertain: UncertainMeasure[];
+    focusedMeasure: number | null;
+    onSelectMeasure: (measureIndex: number) => void;
+}
+
+const ConfidenceReviewPanel: React.FC<ConfidenceReviewPanelProps> = ({ uncertain, focusedMeasure, onSelectMeasure }) => {
+    if (uncertain.length === 0) return null;
+
+    return (
+        <div className="mt-6 p-4 bg-gray-800/60 rounded-lg border border-gray-700 shadow-xl">
+            <h3 className="text-lg font-semibold mb-3 text-indigo-300">
+                Review: {uncertain.length} measure(s) the AI was unsure of
+            </h3>
+            <ul className="max-h-48 overflow-auto text-sm space-y-1">
+                {uncertain.map((doubt, index) => (
+                    <li key={`${doubt.partName}-${doubt.measureIndex}-${index}`}>
+                        <button
+                            onClick={() => onSelectMeasure(doubt.measureIndex)}
+                            className={`w-full text-left px-2 py-1 rounded hover:bg-gray-700 ${doubt.measureIndex === focusedMeasure ? 'bg-gray-700' : ''}`}
+                        >
+                            <span className="text-indigo-300">{doubt.partName}, measure {doubt.measureIndex + 1}</span>
+                            <span className="text-gray-500"> ({Math.round(doubt.confidence * 100)}% sure)</span>
+                            {doubt.ambiguity && <span className="text-gray-300">: {doubt.ambiguity}</span>}
+                        </button>
+                    </li>
+                ))}
+            </ul>
+        </div>
+    );
+};
+
+export default ConfidenceReviewPanel;
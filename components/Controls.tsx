@@ -1,81 +1,116 @@
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useMemo, useEffect } from 'react';
 import { PlayIcon } from './icons/PlayIcon';
 import { StopIcon } from './icons/StopIcon';
 import { DownloadIcon } from './icons/DownloadIcon';
 import { UploadIcon } from './icons/UploadIcon';
 import { CameraIcon } from './icons/CameraIcon';
+import { SolfegeParser, SolfaSource, SolfaInputFormat, MAJOR_KEYS, MINOR_KEYS } from '../services/solfegeParser';
+import { VOICE_LAYOUTS, DEFAULT_VOICE_LAYOUT, getVoiceLayout } from '../services/voiceLayouts';
+import { SOLFA_EXAMPLES } from '../services/solfaExamples';
+import { ChannelStrip, MixSettings, MIN_VOLUME_DB, MAX_VOLUME_DB, stripFor } from '../services/mixer';
 
 interface ControlsProps {
-  onImport: (notation: string, format?: string, key?: string) => void;
+  onImport: (notation: string, format?: SolfaInputFormat, key?: string, layoutId?: string) => void;
   onExtractText: (file: File) => void;
+  onTranscribeFile: (file: File) => void;
+  onImportMidi: (file: File) => void;
+  suggestedKey?: string; // e.g. from an imported MIDI file's key signature
   onOpenCamera: () => void;
   notationText: string;
+  playingTokens?: SolfaSource[]; // sol-fa tokens of the notes being played, marked in the text
   onNotationTextChange: (text: string) => void;
   selectedFile: File | null;
   onSelectedFileChange: (file: File | null) => void;
   onPlay: () => void;
   onStop: () => void;
   onExportWav: () => void;
-  onExportMidi: () => void;
+  onExportMidi: (key: string) => void;
   onConvertToSolfa: (key: string) => void;
   isMusicLoaded: boolean;
   isPlaying: boolean;
   isLoading: boolean;
-  isConverting: boolean;
   tempo: number;
   onTempoChange: (newTempo: number) => void;
   parts: string[];
   selectedPart: string;
   onPartChange: (newPart: string) => void;
+  sections: string[];
+  selectedSection: string;
+  onSectionChange: (newSection: string) => void;
+  mix: MixSettings;
+  onMixChange: (mix: MixSettings) => void;
 }
 
 const Controls: React.FC<ControlsProps> = ({ 
-  onImport, onExtractText, onOpenCamera, notationText, onNotationTextChange, selectedFile, onSelectedFileChange,
+  onImport, onExtractText, onTranscribeFile, onImportMidi, suggestedKey, onOpenCamera, notationText, playingTokens = [], onNotationTextChange, selectedFile, onSelectedFileChange,
   onPlay, onStop, onExportWav, onExportMidi, onConvertToSolfa,
-  isMusicLoaded, isPlaying, isLoading, isConverting,
+  isMusicLoaded, isPlaying, isLoading,
   tempo, onTempoChange,
-  parts, selectedPart, onPartChange
+  parts, selectedPart, onPartChange,
+  sections, selectedSection, onSectionChange,
+  mix, onMixChange
 }) => {
-  const [inputFormat, setInputFormat] = useState<'separate' | 'vertical' | 'mixed'>('separate');
+  const [inputFormat, setInputFormat] = useState<SolfaInputFormat>('separate');
   const [keySignature, setKeySignature] = useState('C');
+  const [voiceLayoutId, setVoiceLayoutId] = useState(DEFAULT_VOICE_LAYOUT.id);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const backdropRef = useRef<HTMLDivElement>(null);
+  const parserRef = useRef(new SolfegeParser());
+  const isMidiFile = !!selectedFile && /\.midi?$/i.test(selectedFile.name);
 
-  const examples = {
-    separate: `Doh is Eb
-S: d:r.m | m:f.s | s:l.s | f:m.r
-A: s:s.s | d:d.d | d:d.d | l:s.f
-T: m:f.s | s:l.s | s:s.d'| d':t.l
-B: d:d.d | d:d.d | d:l.t,| d:s.s`,
-    vertical: `Doh is G
-// Each line represents a voice part (S, A, T, B) in order.
-// Notes in the same column are played together.
-s.s l.l | s.f m.r | d
-m.m f.f | m.r d.t | d
-d'.d'd'.d'| s.s s.s | s
-d.d d.d | d.g g.g | d`,
-    chords: `Doh is C
-// This example mixes explicit part indicators with vertical harmony for the chorus.
-// Verse 1
-S: d r m | f m r
-A: s, l, t,| d t, l,
+  useEffect(() => {
+    if (suggestedKey) setKeySignature(suggestedKey);
+  }, [suggestedKey]);
 
-// Chorus
-| d m s d'| t l s - |
-| s, d m s | s f m - |
-| m s d' m'| r' d' t - |
-| d d d d | g, a, s, - |`
+  // A textarea can't style part of its text, so played tokens are marked on a copy laid over it.
+  const playingRanges = useMemo(() => {
+    const lineStarts = [0];
+    for (let i = 0; i < notationText.length; i++) {
+      if (notationText[i] === '\n') lineStarts.push(i + 1);
+    }
+    return playingTokens
+      .filter(token => token.line <= lineStarts.length)
+      .map(token => ({ start: lineStarts[token.line - 1] + token.column - 1, end: lineStarts[token.line - 1] + token.column - 1 + token.length }))
+      .sort((a, b) => a.start - b.start);
+  }, [notationText, playingTokens]);
+
+  useEffect(() => {
+    const textarea = textareaRef.current;
+    const mark = backdropRef.current?.querySelector('mark');
+    if (!textarea || !mark) return;
+    if (mark.offsetTop < textarea.scrollTop || mark.offsetTop + mark.offsetHeight > textarea.scrollTop + textarea.clientHeight) {
+      textarea.scrollTop = mark.offsetTop - textarea.clientHeight / 2;
+    }
+    backdropRef.current!.scrollTop = textarea.scrollTop;
+  }, [playingRanges]);
+
+  const renderPlayingMarks = () => {
+    const pieces: React.ReactNode[] = [];
+    let position = 0;
+    playingRanges.forEach(({ start, end }, index) => {
+      if (start < position) return; // two parts on the same token
+      pieces.push(notationText.slice(position, start));
+      pieces.push(<mark key={index} className="bg-teal-500/40 text-transparent rounded-sm">{notationText.slice(start, end)}</mark>);
+      position = end;
+    });
+    pieces.push(notationText.slice(position));
+    return pieces;
   };
 
-  const keys = ['C', 'G', 'D', 'A', 'F', 'Bb', 'Eb'];
+  // Sol-fa is checked as the user types, so typos show up before they click Import.
+  const diagnostics = useMemo(() => {
+    if (!notationText || !SolfegeParser.isSolfege(notationText)) return [];
+    return parserRef.current.parse(notationText, keySignature, getVoiceLayout(voiceLayoutId), inputFormat).diagnostics;
+  }, [notationText, keySignature, voiceLayoutId, inputFormat]);
 
   const loadExample = (event: React.ChangeEvent<HTMLSelectElement>) => {
     const exampleType = event.target.value;
-    if (exampleType in examples) {
-      onNotationTextChange(examples[exampleType as keyof typeof examples]);
-      
-      if (exampleType === 'separate') setInputFormat('separate');
-      else if (exampleType === 'vertical') setInputFormat('vertical');
-      else if (exampleType === 'chords') setInputFormat('mixed');
+    if (exampleType in SOLFA_EXAMPLES) {
+      const example = SOLFA_EXAMPLES[exampleType as keyof typeof SOLFA_EXAMPLES];
+      onNotationTextChange(example.text);
+      setVoiceLayoutId(DEFAULT_VOICE_LAYOUT.id); // the examples are all SATB
+      setInputFormat(example.format);
     } else {
       onNotationTextChange('');
     }
@@ -92,7 +127,7 @@ A: s, l, t,| d t, l,
         alert("Please provide notation text to import. If you uploaded a file, extract the text first.");
         return;
     }
-    onImport(notationText, inputFormat, keySignature);
+    onImport(notationText, inputFormat, keySignature, voiceLayoutId);
   };
   
   const handleFileSelectClick = () => {
@@ -109,7 +144,7 @@ A: s, l, t,| d t, l,
   const renderPlaybackControls = () => (
     <>
       {!isPlaying ? (
-        <button onClick={onPlay} disabled={!isMusicLoaded || isLoading || isConverting} className="control-button bg-teal-600 hover:bg-teal-500">
+        <button onClick={onPlay} disabled={!isMusicLoaded || isLoading} className="control-button bg-teal-600 hover:bg-teal-500">
           <PlayIcon /> Play
         </button>
       ) : (
@@ -122,10 +157,10 @@ A: s, l, t,| d t, l,
 
   const renderExportControls = () => (
     <div className="grid grid-cols-2 gap-2">
-      <button onClick={onExportWav} disabled={!isMusicLoaded || isLoading || isPlaying || isConverting} className="control-button bg-blue-600 hover:bg-blue-500">
+      <button onClick={onExportWav} disabled={!isMusicLoaded || isLoading || isPlaying} className="control-button bg-blue-600 hover:bg-blue-500">
         <DownloadIcon /> WAV
       </button>
-      <button onClick={onExportMidi} disabled={!isMusicLoaded || isLoading || isPlaying || isConverting} className="control-button bg-purple-600 hover:bg-purple-500">
+      <button onClick={() => onExportMidi(keySignature)} disabled={!isMusicLoaded || isLoading || isPlaying} className="control-button bg-purple-600 hover:bg-purple-500">
         <DownloadIcon /> MIDI
       </button>
     </div>
@@ -141,7 +176,7 @@ A: s, l, t,| d t, l,
                   id="part-selector"
                   value={selectedPart}
                   onChange={(e) => onPartChange(e.target.value)}
-                  disabled={!isMusicLoaded || isLoading || isPlaying || isConverting}
+                  disabled={!isMusicLoaded || isLoading || isPlaying}
                   className="w-full p-2 bg-gray-900 border border-gray-600 rounded-md focus:ring-2 focus:ring-teal-500 focus:outline-none transition disabled:opacity-50"
               >
                   <option value="All">All Parts</option>
@@ -153,22 +188,133 @@ A: s, l, t,| d t, l,
       )
   );
 
-  const isInputDisabled = isLoading || isConverting;
+  const renderSectionSelector = () => (
+    isMusicLoaded && sections.length > 0 && (
+          <div>
+              <label htmlFor="section-selector" className="block text-sm font-medium text-gray-400 mb-2">
+                  Playback Section:
+              </label>
+              <select
+                  id="section-selector"
+                  value={selectedSection}
+                  onChange={(e) => onSectionChange(e.target.value)}
+                  disabled={!isMusicLoaded || isLoading || isPlaying}
+                  className="w-full p-2 bg-gray-900 border border-gray-600 rounded-md focus:ring-2 focus:ring-teal-500 focus:outline-none transition disabled:opacity-50"
+              >
+                  <option value="All">Whole Piece</option>
+                  {sections.map(sectionName => (
+                      <option key={sectionName} value={sectionName}>{sectionName} only</option>
+                  ))}
+              </select>
+          </div>
+      )
+  );
+
+  const updateStrip = (partName: string, change: Partial<ChannelStrip>) => {
+    onMixChange({ ...mix, [partName]: { ...stripFor(mix, partName), ...change } });
+  };
+
+  // Unlike the other playback settings, the mix can be changed while the music plays.
+  const renderMixer = () => (
+    isMusicLoaded && parts.length > 1 && (
+      <div>
+        <span className="block text-sm font-medium text-gray-400 mb-2">Mixer:</span>
+        <ul className="space-y-2">
+          {parts.map(partName => {
+            const strip = stripFor(mix, partName);
+            return (
+              <li key={partName} className="grid grid-cols-[5rem_auto_1fr_4rem] items-center gap-2 text-sm">
+                <span className="truncate text-gray-300" title={partName}>{partName}</span>
+                <span className="flex gap-1">
+                  <button
+                    onClick={() => updateStrip(partName, { muted: !strip.muted })}
+                    className={`w-7 h-7 rounded font-bold ${strip.muted ? 'bg-red-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+                    aria-pressed={strip.muted}
+                    title={`Mute ${partName}`}
+                  >
+                    M
+                  </button>
+                  <button
+                    onClick={() => updateStrip(partName, { soloed: !strip.soloed })}
+                    className={`w-7 h-7 rounded font-bold ${strip.soloed ? 'bg-yellow-500 text-gray-900' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+                    aria-pressed={strip.soloed}
+                    title={`Solo ${partName}`}
+                  >
+                    S
+                  </button>
+                </span>
+                <input
+                  type="range"
+                  min={MIN_VOLUME_DB}
+                  max={MAX_VOLUME_DB}
+                  value={strip.volume}
+                  onChange={(e) => updateStrip(partName, { volume: Number(e.target.value) })}
+                  aria-label={`${partName} volume`}
+                  title={`${strip.volume} dB`}
+                  className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer [&::-webkit-slider-thumb]:bg-teal-400 [&::-moz-range-thumb]:bg-teal-400"
+                />
+                <input
+                  type="range"
+                  min="-1"
+                  max="1"
+                  step="0.1"
+                  value={strip.pan}
+                  onChange={(e) => updateStrip(partName, { pan: Number(e.target.value) })}
+                  onDoubleClick={() => updateStrip(partName, { pan: 0 })}
+                  aria-label={`${partName} pan`}
+                  title={strip.pan === 0 ? 'Centre' : `${Math.abs(strip.pan * 100).toFixed(0)}% ${strip.pan < 0 ? 'left' : 'right'}`}
+                  className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer [&::-webkit-slider-thumb]:bg-indigo-400 [&::-moz-range-thumb]:bg-indigo-400"
+                />
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+    )
+  );
+
+  const isInputDisabled = isLoading;
 
   return (
     <div className="bg-gray-800/50 rounded-lg shadow-2xl p-6 border border-gray-700 space-y-6 h-full flex flex-col">
       <div>
         <h2 className="text-xl font-semibold mb-3 text-teal-400">1. Input &amp; Convert</h2>
         <p className="text-sm text-gray-400 mb-4">
-          Paste notation, upload an image, or use an example. Use the buttons below to convert between Standard Notation (a visual score) and Tonic Sol-fa text.
+          Paste notation, upload an image, PDF or MIDI file, or use an example. Use the buttons below to convert between Standard Notation (a visual score) and Tonic Sol-fa text.
         </p>
-        <textarea
-          value={notationText}
-          onChange={(e) => onNotationTextChange(e.target.value)}
-          placeholder="e.g., C G Am F, guitar tabs, or 'd r m f s'..."
-          className="w-full h-32 p-3 bg-gray-900 border border-gray-600 rounded-md focus:ring-2 focus:ring-teal-500 focus:outline-none transition disabled:opacity-50"
-          disabled={isInputDisabled}
-        />
+        <div className="relative">
+          <textarea
+            ref={textareaRef}
+            value={notationText}
+            onChange={(e) => onNotationTextChange(e.target.value)}
+            onScroll={(e) => { if (backdropRef.current) backdropRef.current.scrollTop = e.currentTarget.scrollTop; }}
+            placeholder="e.g., C G Am F, guitar tabs, or 'd r m f s'..."
+            className="block w-full h-32 p-3 bg-gray-900 border border-gray-600 rounded-md focus:ring-2 focus:ring-teal-500 focus:outline-none transition disabled:opacity-50"
+            disabled={isInputDisabled}
+          />
+          {playingRanges.length > 0 && (
+            <div
+              ref={backdropRef}
+              aria-hidden="true"
+              className="absolute inset-0 p-3 border border-transparent overflow-hidden whitespace-pre-wrap break-words text-transparent pointer-events-none"
+            >
+              {renderPlayingMarks()}
+            </div>
+          )}
+        </div>
+        {diagnostics.length > 0 && (
+          <ul className="mt-2 max-h-32 overflow-auto text-xs space-y-1" aria-live="polite">
+            {diagnostics.map((diagnostic, index) => (
+              <li
+                key={`${diagnostic.line}-${diagnostic.column}-${index}`}
+                className={diagnostic.severity === 'error' ? 'text-red-400' : 'text-yellow-400'}
+              >
+                <span className="font-mono text-gray-500 mr-2">{diagnostic.line}:{diagnostic.column}</span>
+                {diagnostic.message}
+              </li>
+            ))}
+          </ul>
+        )}
 
         <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 mt-4">
             <div>
@@ -180,10 +326,27 @@ A: s, l, t,| d t, l,
                     className="w-full p-2 bg-gray-900 border border-gray-600 rounded-md focus:ring-2 focus:ring-teal-500 focus:outline-none transition disabled:opacity-50"
                     disabled={isInputDisabled}
                 >
-                    {keys.map(k => <option key={k} value={k}>{k} Major</option>)}
+                    <optgroup label="Major">
+                        {MAJOR_KEYS.map(k => <option key={k} value={k}>{k} Major</option>)}
+                    </optgroup>
+                    <optgroup label="Minor (lah-mode)">
+                        {MINOR_KEYS.map(k => <option key={`${k}m`} value={`${k}m`}>{k} Minor</option>)}
+                    </optgroup>
                 </select>
             </div>
              <div>
+                <label htmlFor="voiceLayout" className="block text-sm font-medium mb-2 text-gray-400">Voice Layout:</label>
+                <select 
+                    id="voiceLayout" 
+                    value={voiceLayoutId}
+                    onChange={(e) => setVoiceLayoutId(e.target.value)}
+                    className="w-full p-2 bg-gray-900 border border-gray-600 rounded-md focus:ring-2 focus:ring-teal-500 focus:outline-none transition disabled:opacity-50"
+                    disabled={isInputDisabled}
+                >
+                    {VOICE_LAYOUTS.map(layout => <option key={layout.id} value={layout.id}>{layout.label}</option>)}
+                </select>
+            </div>
+             <div className="sm:col-span-2">
                 <label htmlFor="exampleSelector" className="block text-sm font-medium mb-2 text-gray-400">SATB Notation Examples:</label>
                 <select 
                     id="exampleSelector" 
@@ -202,7 +365,7 @@ A: s, l, t,| d t, l,
         
         <div className="mt-4">
             <div className="grid grid-cols-2 gap-2">
-              <input type="file" ref={fileInputRef} onChange={handleFileChange} className="hidden" accept="image/*,.musicxml,.xml" disabled={isInputDisabled} />
+              <input type="file" ref={fileInputRef} onChange={handleFileChange} className="hidden" accept="image/*,application/pdf,.pdf,.mid,.midi,audio/midi,.musicxml,.xml" disabled={isInputDisabled} />
               <button onClick={handleFileSelectClick} className="w-full control-button bg-gray-700 hover:bg-gray-600 text-sm" disabled={isInputDisabled}>
                   <UploadIcon /> {selectedFile ? "Change File" : "Select File"}
               </button>
@@ -217,15 +380,34 @@ A: s, l, t,| d t, l,
                     <button onClick={clearFile} className="ml-2 text-red-400 hover:text-red-300" disabled={isInputDisabled}>&times;</button>
                 </div>
             )}
-            {selectedFile && (
+            {selectedFile && isMidiFile && (
               <button 
-                onClick={() => onExtractText(selectedFile)} 
+                onClick={() => onImportMidi(selectedFile)} 
                 disabled={isLoading} 
                 className="mt-2 w-full control-button bg-cyan-600 hover:bg-cyan-500"
               >
-                Extract Text from Image
+                Import MIDI File
               </button>
             )}
+            {selectedFile && !isMidiFile && (
+              <div className="mt-2 grid grid-cols-2 gap-2">
+                <button 
+                  onClick={() => onExtractText(selectedFile)} 
+                  disabled={isLoading} 
+                  className="w-full control-button bg-cyan-600 hover:bg-cyan-500 text-sm"
+                >
+                  Extract Text
+                </button>
+                <button 
+                  onClick={() => onTranscribeFile(selectedFile)} 
+                  disabled={isLoading} 
+                  className="w-full control-button bg-cyan-700 hover:bg-cyan-600 text-sm"
+                  title="Read the score straight from the image or every page of the PDF"
+                >
+                  Read Score Directly
+                </button>
+              </div>
+            )}
         </div>
         <div className="mt-4 grid grid-cols-1 gap-2">
             <button onClick={handleImportClick} disabled={isInputDisabled} className="w-full control-button bg-green-700 hover:bg-green-600 text-lg font-bold">
@@ -233,10 +415,10 @@ A: s, l, t,| d t, l,
             </button>
             <button 
               onClick={() => onConvertToSolfa(keySignature)} 
-              disabled={!isMusicLoaded || isLoading || isPlaying || isConverting}
+              disabled={!isMusicLoaded || isLoading || isPlaying}
               className="w-full control-button bg-indigo-600 hover:bg-indigo-500"
             >
-              {isConverting ? 'Converting...' : 'Convert to Tonic Sol-fa'}
+              Convert to Tonic Sol-fa
             </button>
         </div>
       </div>
@@ -256,7 +438,7 @@ A: s, l, t,| d t, l,
                     max="240"
                     value={tempo}
                     onChange={(e) => onTempoChange(Number(e.target.value))}
-                    disabled={!isMusicLoaded || isLoading || isPlaying || isConverting}
+                    disabled={!isMusicLoaded || isLoading || isPlaying}
                     className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer [&::-webkit-slider-thumb]:bg-teal-400 [&::-moz-range-thumb]:bg-teal-400 disabled:opacity-50 disabled:cursor-not-allowed"
                 />
                 <input
@@ -265,13 +447,15 @@ A: s, l, t,| d t, l,
                     max="240"
                     value={tempo}
                     onChange={(e) => onTempoChange(Number(e.target.value))}
-                    disabled={!isMusicLoaded || isLoading || isPlaying || isConverting}
+                    disabled={!isMusicLoaded || isLoading || isPlaying}
                     className="w-20 p-1 bg-gray-900 border border-gray-600 rounded-md text-center focus:ring-2 focus:ring-teal-500 focus:outline-none transition disabled:opacity-50"
                 />
             </div>
           </div>
           
           {renderPartSelector()}
+          {renderSectionSelector()}
+          {renderMixer()}
 
           <div className="space-y-2 pt-4">
             {renderPlaybackControls()}
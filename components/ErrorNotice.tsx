@@ -0,0 +1,53 @@
+import React from 'react';
+import { TranscriptionError, TranscriptionErrorKind } from '../services/transcriptionErrors';
+
+interface ErrorNoticeProps {
+    error: TranscriptionError;
+}
+
+const TITLES: Record<TranscriptionErrorKind, string> = {
+    'missing-key': 'No API key configured',
+    'invalid-key': 'The API key was rejected',
+    'rate-limited': 'Request limit reached',
+    'timeout': 'The AI took too long',
+    'overloaded': 'The AI service is busy',
+    'bad-response': 'The AI answer could not be read',
+    'unsupported-input': 'This input can\'t be read',
+    'cancelled': 'Cancelled',
+    'unknown': 'Something went wrong',
+};
+
+const remedyFor = (error: TranscriptionError): string => {
+    switch (error.kind) {
+        case 'missing-key':
+            return 'Set GEMINI_API_KEY in .env.local and restart the app, or add ?provider=local to the URL to import sol-fa offline.';
+        case 'invalid-key':
+            return 'Check that GEMINI_API_KEY in .env.local is a valid Gemini key with access to the API, then restart the app.';
+        case 'rate-limited':
+            return error.retryAfterMs
+                ? `Wait about ${Math.ceil(error.retryAfterMs / 1000)} seconds, then import again.`
+                : 'Wait a minute before importing again, or check the quota for your API key.';
+        case 'timeout':
+            return 'Try again, or import a shorter piece (one verse or a few systems at a time).';
+        case 'overloaded':
+            return 'The request was retried but the service is still overloaded. Try again in a few minutes.';
+        case 'bad-response':
+            return 'Import again; the answer is usually valid on a second attempt. Cleaner input text also helps.';
+        case 'unsupported-input':
+            return 'Check the file, or type or paste the notation as Tonic Sol-fa. Other notation needs a Gemini API key.';
+        case 'cancelled':
+            return 'Import again when you are ready.';
+        default:
+            return 'Try again. If it keeps failing, check your network connection.';
+    }
+};
+
+const ErrorNotice: React.FC<ErrorNoticeProps> = ({ error }) => (
+    <div className="text-center max-w-lg" role="alert">
+        <p className="text-red-400 text-lg font-semibold">{TITLES[error.kind]}</p>
+        <p className="text-red-300 mt-2 text-sm break-words">{error.message}</p>
+        <p className="text-gray-300 mt-4">{remedyFor(error)}</p>
+    </div>
+);
+
+export default ErrorNotice;
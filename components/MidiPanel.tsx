@@ -0,0 +1,135 @@
+import React, { useState, useCallback } from 'react';
+import { Measure } from '../types';
+import { MidiDevice, WebMidiEngine } from '../services/webMidi';
+
+interface MidiPanelProps {
+    engine: WebMidiEngine;
+    outputId: string; // '' plays through the built-in synth
+    onOutputChange: (outputId: string) => void;
+    tempo: number;
+    timeSignature: string;
+    recordTarget: string; // where a recording will go, e.g. "Soprano from measure 1"
+    onRecorded: (measures: Measure[]) => void;
+}
+
+const GRIDS: { label: string; beats: number }[] = [
+    { label: 'Quarter notes', beats: 1 },
+    { label: 'Eighth notes', beats: 0.5 },
+    { label: 'Sixteenth notes', beats: 0.25 },
+    { label: 'Eighth-note triplets', beats: 1 / 3 },
+];
+
+const MidiPanel: React.FC<MidiPanelProps> = ({ engine, outputId, onOutputChange, tempo, timeSignature, recordTarget, onRecorded }) => {
+    const [outputs, setOutputs] = useState<MidiDevice[]>([]);
+    const [inputs, setInputs] = useState<MidiDevice[]>([]);
+    const [inputId, setInputId] = useState('');
+    const [grid, setGrid] = useState(0.25);
+    const [isConnected, setIsConnected] = useState(engine.isConnected);
+    const [isRecording, setIsRecording] = useState(false);
+    const [message, setMessage] = useState<string | null>(null);
+
+    const refreshDevices = useCallback(() => {
+        setOutputs(engine.listOutputs());
+        const available = engine.listInputs();
+        setInputs(available);
+        setInputId(current => available.some(device => device.id === current) ? current : available[0]?.id ?? '');
+    }, [engine]);
+
+    const handleConnect = async () => {
+        try {
+            await engine.connect(refreshDevices);
+            setIsConnected(true);
+            setMessage(null);
+            refreshDevices();
+        } catch (err) {
+            console.error(err);
+            setMessage('MIDI access was refused. Allow MIDI devices for this site and try again.');
+        }
+    };
+
+    const handleRecord = () => {
+        if (isRecording) {
+            const measures = engine.stopRecording(tempo, timeSignature, grid);
+            setIsRecording(false);
+            if (measures.length === 0) {
+                setMessage('Nothing was played.');
+                return;
+            }
+            setMessage(null);
+            onRecorded(measures);
+            return;
+        }
+        try {
+            engine.startRecording(inputId);
+            setIsRecording(true);
+            setMessage(null);
+        } catch (err) {
+            setMessage(err instanceof Error ? err.message : 'Recording could not start.');
+        }
+    };
+
+    if (!WebMidiEngine.isSupported() && !isConnected) {
+        return null;
+    }
+
+    return (
+        <div className="p-4 bg-gray-800/60 rounded-lg border border-gray-700 shadow-xl text-sm">
+            <h3 className="text-lg font-semibold text-teal-400">MIDI Devices</h3>
+            {!isConnected ? (
+                <button onClick={handleConnect} className="mt-3 px-3 py-1 bg-gray-700 hover:bg-gray-600 rounded-md text-gray-200">
+                    Enable MIDI
+                </button>
+            ) : (
+                <div className="mt-3 space-y-3">
+                    <label className="block text-gray-300">
+                        Play through
+                        <select
+                            value={outputId}
+                            onChange={(e) => onOutputChange(e.target.value)}
+                            className="mt-1 w-full bg-gray-700 border border-gray-600 rounded-md p-2 text-gray-100"
+                        >
+                            <option value="">Built-in synth</option>
+                            {outputs.map(device => <option key={device.id} value={device.id}>{device.name}</option>)}
+                        </select>
+                    </label>
+                    <label className="block text-gray-300">
+                        Record from
+                        <select
+                            value={inputId}
+                            onChange={(e) => setInputId(e.target.value)}
+                            disabled={isRecording || inputs.length === 0}
+                            className="mt-1 w-full bg-gray-700 border border-gray-600 rounded-md p-2 text-gray-100 disabled:opacity-50"
+                        >
+                            {inputs.length === 0 && <option value="">No MIDI inputs</option>}
+                            {inputs.map(device => <option key={device.id} value={device.id}>{device.name}</option>)}
+                        </select>
+                    </label>
+                    <label className="block text-gray-300">
+                        Snap to
+                        <select
+                            value={grid}
+                            onChange={(e) => setGrid(Number(e.target.value))}
+                            disabled={isRecording}
+                            className="mt-1 w-full bg-gray-700 border border-gray-600 rounded-md p-2 text-gray-100 disabled:opacity-50"
+                        >
+                            {GRIDS.map(option => <option key={option.label} value={option.beats}>{option.label}</option>)}
+                        </select>
+                    </label>
+                    <div className="flex items-center gap-3">
+                        <button
+                            onClick={handleRecord}
+                            disabled={!inputId}
+                            className={`px-3 py-1 rounded-md text-white disabled:opacity-50 ${isRecording ? 'bg-red-600 hover:bg-red-500' : 'bg-gray-700 hover:bg-gray-600'}`}
+                        >
+                            {isRecording ? 'Stop Recording' : 'Record'}
+                        </button>
+                        <span className="text-gray-400">Into {recordTarget} at {tempo} BPM</span>
+                    </div>
+                </div>
+            )}
+            {message && <p className="mt-2 text-red-400">{message}</p>}
+        </div>
+    );
+};
+
+export default MidiPanel;
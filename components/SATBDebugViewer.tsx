@@ -1,33 +1,48 @@
 import React from 'react';
+import { ParsedSolfaScore } from '../services/solfegeParser';
+import { SolfaNoteLocation } from '../services/solfaConverter';
 
 interface SATBDebugViewerProps {
-    data: any;
+    data: ParsedSolfaScore;
+    playing?: SolfaNoteLocation[]; // the notes being played, one per part at most
 }
 
-const SATBDebugViewer: React.FC<SATBDebugViewerProps> = ({ data }) => {
+const SATBDebugViewer: React.FC<SATBDebugViewerProps> = ({ data, playing = [] }) => {
     if (!data) return null;
 
-    const parts = ['soprano', 'alto', 'tenor', 'bass'];
+    const parts = data.layout.parts;
+    const measuresByPart = data.parts;
 
     // Check if there is any actual data to display
-    const hasData = parts.some(part => data[part] && data[part].length > 0 && data[part].some((measure: any[]) => measure.length > 0 && !measure[0].isRest));
+    const hasData = parts.some(({ id }) => measuresByPart[id] && measuresByPart[id].length > 0 && measuresByPart[id].some(measure => measure.length > 0 && !measure[0].isRest));
     if (!hasData) return null;
 
     return (
         <div className="mt-6 p-4 bg-gray-800/60 rounded-lg border border-gray-700 shadow-xl">
-            <h3 className="text-lg font-semibold mb-3 text-teal-400">SATB Parser Output</h3>
+            <h3 className="text-lg font-semibold mb-3 text-teal-400">{data.layout.label} Parser Output</h3>
             <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
-                {parts.map(part => (
-                    data[part] && data[part].length > 0 && (
-                        <div key={part} className="bg-gray-900/70 p-3 rounded-md border border-gray-700">
-                            <strong className="block mb-2 text-center capitalize text-gray-300 tracking-wider">{part}</strong>
-                            {data[part].map((measure: any[], measureIndex: number) => (
-                                <div key={`${part}-${measureIndex}`} className="text-sm mb-1 text-gray-400">
+                {parts.map(({ id, name }) => (
+                    measuresByPart[id] && measuresByPart[id].length > 0 && (
+                        <div key={id} className="bg-gray-900/70 p-3 rounded-md border border-gray-700">
+                            <strong className="block mb-2 text-center capitalize text-gray-300 tracking-wider">{name}</strong>
+                            {measuresByPart[id].map((measure, measureIndex) => (
+                                <div key={`${id}-${measureIndex}`} className="text-sm mb-1 text-gray-400">
                                     <span className="font-semibold text-gray-500 mr-2">M{measureIndex + 1}:</span>
                                     <span className="font-mono">
-                                    {measure.map((note, noteIndex) => 
-                                        note.isRest ? 'R' : `${note.solfege}(${note.noteName}${note.octave})`
-                                    ).join(' ')}
+                                    {measure.map((note, noteIndex) => (
+                                        <span
+                                            key={noteIndex}
+                                            className={[
+                                                note.isChromatic ? 'text-amber-300' : '',
+                                                playing.some(location => location.partId === id && location.measureIndex === measureIndex && location.noteIndex === noteIndex)
+                                                    ? 'bg-teal-500/40 text-white rounded-sm' : '',
+                                            ].join(' ').trim() || undefined}
+                                            title={note.isRest ? undefined : `MIDI ${note.midiNumber}`}
+                                        >
+                                            {noteIndex > 0 && ' '}
+                                            {note.isRest ? 'R' : `${note.solfege}(${note.noteName}${note.octave})`}
+                                        </span>
+                                    ))}
                                     </span>
                                 </div>
                             ))}
@@ -0,0 +1,58 @@
+import React from 'react';
+import { ScoreIssue } from '../services/scoreValidator';
+import { MeasureRepair } from '../services/scoreRepair';
+
+interface ScoreIssuesPanelProps {
+    issues: ScoreIssue[];
+    repairs?: MeasureRepair[]; // what the AI repair rounds changed
+    importWarnings?: string[]; // what an imported file (or a sol-fa conversion) couldn't keep
+}
+
+const ScoreIssuesPanel: React.FC<ScoreIssuesPanelProps> = ({ issues, repairs = [], importWarnings = [] }) => {
+    if (issues.length === 0 && repairs.length === 0 && importWarnings.length === 0) return null;
+
+    const errorCount = issues.filter(issue => issue.severity === 'error').length;
+
+    return (
+        <div className="mt-6 p-4 bg-gray-800/60 rounded-lg border border-gray-700 shadow-xl">
+            <h3 className="text-lg font-semibold mb-3 text-teal-400">
+                Score Check: {errorCount} error(s), {issues.length - errorCount} warning(s)
+            </h3>
+            {issues.length > 0 && (
+                <ul className="max-h-48 overflow-auto text-sm space-y-1" aria-live="polite">
+                    {issues.map((issue, index) => (
+                        <li
+                            key={`${issue.kind}-${issue.partName}-${issue.measureIndex}-${index}`}
+                            className={issue.severity === 'error' ? 'text-red-400' : 'text-yellow-400'}
+                        >
+                            {issue.message}
+                        </li>
+                    ))}
+                </ul>
+            )}
+            {importWarnings.length > 0 && (
+                <ul className="mt-2 text-sm space-y-1">
+                    {importWarnings.map((warning, index) => <li key={index} className="text-yellow-400">{warning}</li>)}
+                </ul>
+            )}
+            {repairs.length > 0 && (
+                <>
+                    <h4 className="mt-4 mb-2 text-sm font-semibold text-gray-300">Fixed by AI repair</h4>
+                    <ul className="max-h-48 overflow-auto text-xs space-y-2">
+                        {repairs.map((repair, index) => (
+                            <li key={`${repair.partName}-${repair.measureIndex}-${index}`} className={repair.resolved ? 'text-green-400' : 'text-yellow-400'}>
+                                <div>
+                                    {repair.partName}{repair.measureIndex !== undefined && `, measure ${repair.measureIndex + 1}`} (round {repair.round}){!repair.resolved && ' - still has errors'}
+                                </div>
+                                <div className="font-mono text-gray-500">- {repair.before}</div>
+                                <div className="font-mono text-gray-300">+ {repair.after}</div>
+                            </li>
+                        ))}
+                    </ul>
+                </>
+            )}
+        </div>
+    );
+};
+
+export default ScoreIssuesPanel;
@@ -1,8 +1,16 @@
-import React from 'react';
+import React, { useRef, useEffect } from 'react';
 import { ParsedMusic, Note, Measure } from '../types';
+import { notePitches } from '../services/noteDurations';
+import { ScoreIssue } from '../services/scoreValidator';
+import { UncertainMeasure } from '../services/scoreConfidence';
+import { PlaybackPosition } from '../services/soundEngine';
 
 interface SheetMusicViewerProps {
   music: ParsedMusic;
+  issues?: ScoreIssue[]; // measures with issues in any part are highlighted
+  uncertain?: UncertainMeasure[]; // measures the transcriber guessed at are tinted
+  focusedMeasure?: number | null; // scrolled into view and outlined
+  playback?: PlaybackPosition | null; // the note being played is highlighted and its line kept in view
 }
 
 const PITCH_Y_MAP: Record<string, number> = {
@@ -16,12 +24,52 @@ const PITCH_Y_MAP: Record<string, number> = {
 const DURATION_WIDTH: Record<Note['duration'], number> = {
     'whole': 80, 'half': 60, 'quarter': 45, 'eighth': 35, 'sixteenth': 35
 };
+const DOT_WIDTH = 10;
+
+const noteWidth = (note: Note) => DURATION_WIDTH[note.duration] + (note.dots || 0) * DOT_WIDTH;
+
+interface NoteMarks {
+    tieSpan?: number; // distance to the next note's x, when this note is tied to it
+    tupletLabel?: string; // shown above the first note of each tuplet group
+}
 
 const STAFF_TOP = 40;
 const STAFF_HEIGHT = 80;
 const LINE_SPACING = STAFF_HEIGHT / 4;
+const LYRIC_TOP = STAFF_TOP + STAFF_HEIGHT + 45; // below the lowest downward stems
+const LYRIC_LINE_HEIGHT = 18;
+
+const renderDots = (note: Note, x: number, y: number) => (
+    Array.from({ length: note.dots || 0 }, (_, i) => (
+        <circle key={`dot-${i}`} cx={x + i * 8} cy={y} r="2.5" fill="white" />
+    ))
+);
+
+interface NoteHead {
+    y: number;
+    accidental: 'sharp' | 'flat' | null;
+}
+
+const toNoteHead = (pitch: string): NoteHead => {
+    let accidental: NoteHead['accidental'] = null;
+    let pitchWithoutAccidental = pitch;
+
+    if (/[#b]/.test(pitch)) {
+        const match = pitch.match(/([A-G])([#b]+)(.*)/);
+        if(match) {
+            if (match[2].includes('#')) accidental = 'sharp';
+            if (match[2].includes('b')) accidental = 'flat';
+            pitchWithoutAccidental = match[1] + match[3];
+        }
+    }
+    
+    return { y: PITCH_Y_MAP[pitchWithoutAccidental] || PITCH_Y_MAP['B4'], accidental };
+};
 
-const renderNote = (note: Note, x: number, key: string) => {
+const renderNote = (note: Note, x: number, key: string, marks: NoteMarks = {}) => {
+    const tupletLabel = marks.tupletLabel && (
+        <text x={x + 10} y={STAFF_TOP - 12} textAnchor="middle" fontSize="13" fontStyle="italic" fill="rgba(255,255,255,0.85)">{marks.tupletLabel}</text>
+    );
     if (note.pitch === 'rest') {
         const RestSymbols: Record<Note['duration'], React.ReactNode> = {
             'whole': <rect x={x} y={STAFF_TOP + LINE_SPACING} width="20" height="8" fill="white" />,
@@ -31,43 +79,44 @@ const renderNote = (note: Note, x: number, key: string) => {
             'sixteenth': <text x={x} y={STAFF_TOP + STAFF_HEIGHT/2 + 10} fontSize="40" fill="white" fontFamily="serif">𝄿</text>,
         };
         const restSymbol = RestSymbols[note.duration];
-        return <g key={key}>{restSymbol}</g>;
+        return <g key={key}>{restSymbol}{renderDots(note, x + 28, STAFF_TOP + STAFF_HEIGHT / 2 - 5)}{tupletLabel}</g>;
     }
 
-    let accidental: 'sharp' | 'flat' | null = null;
-    let pitchWithoutAccidental = note.pitch;
-
-    if (/[#b]/.test(note.pitch)) {
-        const match = note.pitch.match(/([A-G])([#b]+)(.*)/);
-        if(match) {
-            if (match[2].includes('#')) accidental = 'sharp';
-            if (match[2].includes('b')) accidental = 'flat';
-            pitchWithoutAccidental = match[1] + match[3];
-        }
-    }
+    // A chord's heads share one stem, drawn from the far head to past the near one.
+    const heads = notePitches(note).map(toNoteHead);
+    const topY = Math.min(...heads.map(head => head.y));
+    const bottomY = Math.max(...heads.map(head => head.y));
     
-    const y = PITCH_Y_MAP[pitchWithoutAccidental] || PITCH_Y_MAP['B4']; 
-    
-    const noteHeadX = x + (accidental ? 15 : 0);
+    const noteHeadX = x + (heads.some(head => head.accidental) ? 15 : 0);
     const accidentalX = x;
 
     const hasStem = note.duration !== 'whole';
     const isFilled = ['quarter', 'eighth', 'sixteenth'].includes(note.duration);
-    const stemDirection = y < STAFF_TOP + STAFF_HEIGHT / 2 ? -1 : 1; // Stems go down if high, up if low
+    const stemDirection = (topY + bottomY) / 2 < STAFF_TOP + STAFF_HEIGHT / 2 ? -1 : 1; // Stems go down if high, up if low
     const stemX = noteHeadX + (stemDirection === 1 ? 10 : -10);
     const stemHeight = 60;
-    const stemY2 = y + stemDirection * stemHeight;
+    const stemY1 = stemDirection === 1 ? topY : bottomY;
+    const stemY2 = (stemDirection === 1 ? bottomY : topY) + stemDirection * stemHeight;
 
     const flagDirection = stemDirection === -1 ? 1 : -1; // Flags point right
 
     return (
       <g key={key}>
-        {accidental === 'sharp' && <text x={accidentalX} y={y + 5} fontSize="30" fill="white" fontFamily="serif">♯</text>}
-        {accidental === 'flat' && <text x={accidentalX} y={y + 8} fontSize="35" fill="white" fontFamily="serif">♭</text>}
-        
-        {hasStem && <line x1={stemX} y1={y} x2={stemX} y2={stemY2} stroke="white" strokeWidth="2" />}
+        {hasStem && <line x1={stemX} y1={stemY1} x2={stemX} y2={stemY2} stroke="white" strokeWidth="2" />}
         
-        <ellipse cx={noteHeadX} cy={y} rx="10" ry="8" fill={isFilled ? 'white' : 'transparent'} stroke="white" strokeWidth="2.5" transform={`rotate(-20, ${noteHeadX}, ${y})`} />
+        {heads.map(({ y, accidental }, headIndex) => (
+          <g key={`head-${headIndex}`}>
+            {accidental === 'sharp' && <text x={accidentalX} y={y + 5} fontSize="30" fill="white" fontFamily="serif">♯</text>}
+            {accidental === 'flat' && <text x={accidentalX} y={y + 8} fontSize="35" fill="white" fontFamily="serif">♭</text>}
+            <ellipse cx={noteHeadX} cy={y} rx="10" ry="8" fill={isFilled ? 'white' : 'transparent'} stroke="white" strokeWidth="2.5" transform={`rotate(-20, ${noteHeadX}, ${y})`} />
+            {/* Dots sit in a space, so a note on a line has them raised half a space */}
+            {renderDots(note, noteHeadX + 16, (y - STAFF_TOP) % LINE_SPACING === 0 ? y - LINE_SPACING / 2 : y)}
+            {marks.tieSpan !== undefined &&
+                <path d={`M ${noteHeadX + 6} ${y + 10 * -stemDirection} Q ${noteHeadX + marks.tieSpan / 2} ${y + 22 * -stemDirection}, ${noteHeadX + marks.tieSpan - 6} ${y + 10 * -stemDirection}`} stroke="white" strokeWidth="2" fill="none"/>
+            }
+          </g>
+        ))}
+        {tupletLabel}
         
         {note.duration === 'eighth' && 
             <path d={`M ${stemX} ${stemY2} Q ${stemX + flagDirection * 15} ${stemY2 + 15}, ${stemX + flagDirection * 5} ${stemY2 + 30}`} stroke="white" strokeWidth="3" fill="none"/>
@@ -78,6 +127,12 @@ const renderNote = (note: Note, x: number, key: string) => {
             <path d={`M ${stemX} ${stemY2 - 8} Q ${stemX + flagDirection * 15} ${stemY2 + 7}, ${stemX + flagDirection * 5} ${stemY2 + 22}`} stroke="white" strokeWidth="3" fill="none"/>
           </>
         }
+
+        {note.lyric?.map((syllable, verse) => syllable && (
+            <text key={`lyric-${verse}`} x={noteHeadX} y={LYRIC_TOP + verse * LYRIC_LINE_HEIGHT} textAnchor="middle" fontSize="14" fill="rgba(255,255,255,0.85)">
+                {syllable}
+            </text>
+        ))}
       </g>
     );
 }
@@ -86,13 +141,37 @@ const TrebleClef = ({ x, y }: { x: number; y: number; }) => (
     <text x={x} y={y} fontSize="120" fill="white" fontFamily="serif">&#x1D11E;</text>
 );
 
-const SheetMusicViewer: React.FC<SheetMusicViewerProps> = ({ music }) => {
+// A boxed section label above the measure where the section starts.
+const RehearsalMark = ({ x, label }: { x: number; label: string; }) => (
+    <g>
+        <rect x={x - 4} y={STAFF_TOP - 36} width={label.length * 8 + 10} height="20" fill="none" stroke="rgb(94,234,212)" strokeWidth="1.5" />
+        <text x={x + 1} y={STAFF_TOP - 21} fontSize="13" fontWeight="bold" fill="rgb(94,234,212)">{label}</text>
+    </g>
+);
+
+const SheetMusicViewer: React.FC<SheetMusicViewerProps> = ({ music, issues = [], uncertain = [], focusedMeasure = null, playback = null }) => {
+    const containerRef = useRef<HTMLDivElement>(null);
+
+    useEffect(() => {
+        if (focusedMeasure === null) return;
+        containerRef.current?.querySelector(`[data-measure="${focusedMeasure}"]`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    }, [focusedMeasure]);
+
+    // Follows playback a line at a time; 'nearest' leaves the view alone while the line is visible.
+    const playbackMeasure = playback?.measureIndex ?? null;
+    useEffect(() => {
+        if (playbackMeasure === null) return;
+        containerRef.current?.querySelector(`[data-measure="${playbackMeasure}"]`)?.closest('[data-line]')?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+    }, [playbackMeasure]);
+
     // For now, display only the first part until multi-staff rendering is implemented.
     const partToDisplay = music.parts[0];
     if (!partToDisplay) {
         return <div className="text-gray-500 text-center">No musical parts to display.</div>;
     }
     const measures = partToDisplay.measures;
+    const verseCount = Math.max(0, ...measures.flatMap(m => m.notes.map(note => note.lyric?.length || 0)));
+    const lineHeight = STAFF_HEIGHT + 60 + (verseCount > 0 ? verseCount * LYRIC_LINE_HEIGHT + 20 : 0);
 
     const lines: Measure[][] = [];
     let currentLine: Measure[] = [];
@@ -100,7 +179,7 @@ const SheetMusicViewer: React.FC<SheetMusicViewerProps> = ({ music }) => {
     const MAX_WIDTH = 980;
 
     measures.forEach(measure => {
-        const measureWidth = measure.notes.reduce((w, note) => w + DURATION_WIDTH[note.duration], 0) + 20; // notes + barline space
+        const measureWidth = measure.notes.reduce((w, note) => w + noteWidth(note), 0) + 20; // notes + barline space
         if (currentWidth + measureWidth > MAX_WIDTH && currentLine.length > 0) {
             lines.push(currentLine);
             currentLine = [];
@@ -112,21 +191,23 @@ const SheetMusicViewer: React.FC<SheetMusicViewerProps> = ({ music }) => {
     if (currentLine.length > 0) {
         lines.push(currentLine);
     }
+    const lineStartMeasures = lines.map((_, index) => lines.slice(0, index).reduce((count, line) => count + line.length, 0));
     
-    const totalHeight = lines.length * (STAFF_HEIGHT + 60) + STAFF_TOP + 30; // Added space for title
+    const totalHeight = lines.length * lineHeight + STAFF_TOP + 30; // Added space for title
 
     return (
-        <div className="w-full h-full overflow-auto">
+        <div ref={containerRef} className="w-full h-full overflow-auto">
             <svg width="100%" height="auto" viewBox={`0 0 1000 ${totalHeight}`}>
                 <text x="500" y="25" textAnchor="middle" fill="rgba(255,255,255,0.8)" fontSize="20" fontWeight="bold">
                     Displaying Part: {partToDisplay.partName}
                 </text>
                 {lines.map((measuresOnLine, lineIndex) => {
-                    const yOffset = lineIndex * (STAFF_HEIGHT + 60) + 30; // Offset for title
+                    const yOffset = lineIndex * lineHeight + 30; // Offset for title
                     let currentX = 80;
+                    let tupletCount = 0; // position within the current run of tuplet notes
                     
                     return (
-                        <g key={`line-${lineIndex}`} transform={`translate(0, ${yOffset})`}>
+                        <g key={`line-${lineIndex}`} transform={`translate(0, ${yOffset})`} data-line={lineIndex}>
                             {/* Staff lines */}
                             {Array.from({ length: 5 }).map((_, i) => (
                                 <path 
@@ -141,16 +222,53 @@ const SheetMusicViewer: React.FC<SheetMusicViewerProps> = ({ music }) => {
                             
                             {/* Notes and Barlines */}
                             {measuresOnLine.map((measure, measureIndex) => {
+                                const globalMeasureIndex = lineStartMeasures[lineIndex] + measureIndex;
+                                const section = music.sections?.find(s => s.startMeasure === globalMeasureIndex);
+                                const measureIssues = issues.filter(issue => issue.measureIndex === globalMeasureIndex);
+                                const measureDoubts = uncertain.filter(doubt => doubt.measureIndex === globalMeasureIndex);
+                                const measureStartX = currentX;
+                                const rehearsalMark = section && <RehearsalMark x={currentX} label={section.name} />;
                                 const measureContent = measure.notes.map((note, noteIndex) => {
-                                    const noteElement = renderNote(note, currentX, `${lineIndex}-${measureIndex}-${noteIndex}`);
-                                    currentX += DURATION_WIDTH[note.duration];
-                                    return noteElement;
+                                    const isLastInMeasure = noteIndex === measure.notes.length - 1;
+                                    const width = noteWidth(note) + (isLastInMeasure ? 20 : 0); // the next note may be past the barline
+                                    tupletCount = note.tuplet ? tupletCount + 1 : 0;
+                                    const isPlaying = playback?.partName === partToDisplay.partName
+                                        && playback.measureIndex === globalMeasureIndex && playback.noteIndex === noteIndex;
+                                    const noteElement = renderNote(note, currentX, `${lineIndex}-${measureIndex}-${noteIndex}`, {
+                                        tieSpan: note.tie && (!note.tiedPitches || note.tiedPitches.includes(note.pitch)) ? width : undefined,
+                                        tupletLabel: note.tuplet && (tupletCount - 1) % note.tuplet.actual === 0 ? String(note.tuplet.actual) : undefined,
+                                    });
+                                    const highlight = isPlaying && (
+                                        <rect x={currentX - 12} y={STAFF_TOP - 20} width={noteWidth(note)} height={STAFF_HEIGHT + 40} rx="4" fill="rgba(45,212,191,0.3)" />
+                                    );
+                                    currentX += noteWidth(note);
+                                    return highlight ? <g key={`playing-${noteIndex}`}>{highlight}{noteElement}</g> : noteElement;
                                 });
                                 currentX += 10; // barline space
                                 const barline = <line x1={currentX} y1={STAFF_TOP} x2={currentX} y2={STAFF_TOP + STAFF_HEIGHT} stroke="rgba(255,255,255,0.8)" strokeWidth="2" />;
                                 currentX += 10; // space after barline
+                                const boxProps = { x: measureStartX - 6, y: STAFF_TOP - 10, width: currentX - measureStartX - 4, height: STAFF_HEIGHT + 20 };
                                 return (
-                                    <g key={`measure-${lineIndex}-${measureIndex}`}>
+                                    <g key={`measure-${lineIndex}-${measureIndex}`} data-measure={globalMeasureIndex}>
+                                        {measureDoubts.length > 0 && (
+                                            <rect {...boxProps} fill="rgba(129,140,248,0.2)">
+                                                <title>
+                                                    {measureDoubts.map(doubt => `${doubt.partName}: ${Math.round(doubt.confidence * 100)}% sure${doubt.ambiguity ? ` - ${doubt.ambiguity}` : ''}`).join('\n')}
+                                                </title>
+                                            </rect>
+                                        )}
+                                        {measureIssues.length > 0 && (
+                                            <rect
+                                                {...boxProps}
+                                                fill={measureIssues.some(issue => issue.severity === 'error') ? 'rgba(248,113,113,0.18)' : 'rgba(250,204,21,0.15)'}
+                                            >
+                                                <title>{measureIssues.map(issue => issue.message).join('\n')}</title>
+                                            </rect>
+                                        )}
+                                        {globalMeasureIndex === focusedMeasure && (
+                                            <rect {...boxProps} fill="none" stroke="rgb(94,234,212)" strokeWidth="2" strokeDasharray="6 4" />
+                                        )}
+                                        {rehearsalMark}
                                         {measureContent}
                                         {barline}
                                     </g>
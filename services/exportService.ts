@@ -1,5 +1,7 @@
 
-import { ParsedMusic, Note, Part } from '../types';
+import { ParsedMusic } from '../types';
+import { soundingNotes, totalBeats } from './noteDurations';
+import { MixSettings, applyStrip, createPartVoice, isAudible, stripFor } from './mixer';
 
 declare const Tone: any;
 
@@ -95,58 +97,51 @@ const bufferToWav = (buffer: AudioBuffer): Blob => {
   }
 };
 
-const DURATION_TO_TONE: Record<Note['duration'], string> = {
-    'whole': '1n', 'half': '2n', 'quarter': '4n', 'eighth': '8n', 'sixteenth': '16n'
-};
-
-export const exportToWav = async (music: ParsedMusic, tempo: number, targetPartName?: string) => {
+export const exportToWav = async (music: ParsedMusic, tempo: number, targetPartName?: string, mix: MixSettings = {}) => {
     if (typeof Tone === 'undefined' || typeof Tone.Offline === 'undefined') {
         alert('Audio library (Tone.js) has not loaded. Cannot export to WAV.');
         return;
     }
 
-    const partsToRender = targetPartName && targetPartName.toLowerCase() !== 'all'
+    const selectedParts = targetPartName && targetPartName.toLowerCase() !== 'all'
         ? music.parts.filter(p => p.partName.toLowerCase() === targetPartName.toLowerCase())
         : music.parts;
+    // Rendered with the playback mix; muted parts (or those left out by a solo) are not rendered at all.
+    const selectedNames = selectedParts.map(p => p.partName);
+    const partsToRender = selectedParts.filter(p => isAudible(mix, p.partName, selectedNames));
         
     if (partsToRender.length === 0) {
         alert("No parts available to export.");
         return;
     }
 
+    const secondsPerBeat = 60 / tempo;
     let maxDuration = 0;
-     // Temporarily set Tone's transport for duration calculation, then reset
-    const originalBpm = Tone.Transport.bpm.value;
-    Tone.Transport.bpm.value = tempo;
 
     partsToRender.forEach(part => {
-        const notes = part.measures.flatMap(m => m.notes);
-        const partDuration = notes.reduce((total, note) => total + Tone.Time(DURATION_TO_TONE[note.duration]).toSeconds(), 0);
+        const partDuration = totalBeats(part.measures.flatMap(m => m.notes)) * secondsPerBeat;
         if (partDuration > maxDuration) {
             maxDuration = partDuration;
         }
     });
 
-    Tone.Transport.bpm.value = originalBpm;
-
     try {
-        const buffer = await Tone.Offline(async (transport: any) => {
-            const offlineSynth = new Tone.PolySynth(Tone.Synth).toDestination();
+        // Tone.Offline hands over its offline context, whose transport is separate from live playback.
+        const buffer = await Tone.Offline(async ({ transport }: any) => {
             transport.bpm.value = tempo;
 
             partsToRender.forEach(partData => {
+                const voice = createPartVoice();
+                applyStrip(voice, stripFor(mix, partData.partName), true);
                 const notes = partData.measures.flatMap(m => m.notes);
-                const part = new transport.Part((time: number, value: any) => {
+                const part = new Tone.Part((time: number, value: any) => {
                     if (value.pitch !== 'rest') {
-                        offlineSynth.triggerAttackRelease(value.pitch, value.duration, time);
+                        voice.synth.triggerAttackRelease(value.pitch, value.duration, time);
                     }
                 }, []).start(0);
 
-                let currentTime = 0;
-                notes.forEach(note => {
-                    const toneDuration = DURATION_TO_TONE[note.duration];
-                    part.add(currentTime, { pitch: note.pitch, duration: toneDuration });
-                    currentTime += Tone.Time(toneDuration).toSeconds();
+                soundingNotes(notes).forEach(note => {
+                    part.add(note.startBeat * secondsPerBeat, { pitch: note.pitch, duration: note.beats * secondsPerBeat });
                 });
             });
 
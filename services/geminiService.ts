@@ -1,11 +1,22 @@
 
-import { GoogleGenAI, Type, GenerateContentResponse } from "@google/genai";
-import { ParsedMusic } from '../types';
+import { GoogleGenAI, Type, Content } from "@google/genai";
+import { Measure, Note, ParsedMusic, Part } from '../types';
 import { SolfegeParser } from './solfegeParser';
+import { validateScore } from './scoreValidator';
+import { MeasureRepair, buildRepairPrompt, countErrors, diffRepairs } from './scoreRepair';
+import { RequestOptions, TranscriptionProgress, TranscriptionProvider, TranscriptionResult } from './transcriptionProvider';
+import { TranscriptionError, toTranscriptionError } from './transcriptionErrors';
+import { CacheEntry, TranscriptionCache, hashCacheKey } from './transcriptionCache';
+import { countPdfPages, joinPages } from './scorePages';
+import { parsePartialJson } from './partialJson';
 
-interface RequestOptions {
-  signal?: AbortSignal;
-}
+// How many times a score that fails validation is sent back to the model with its errors.
+const MAX_REPAIR_ROUNDS = 2;
+
+const MODEL = 'gemini-2.5-flash';
+
+// A rate limit is only waited out automatically if the service asks for no more than this.
+const MAX_RETRY_AFTER_MS = 30000;
 
 const musicSchema = {
   type: Type.OBJECT,
@@ -40,17 +51,47 @@ const musicSchema = {
                     properties: {
                       pitch: {
                         type: Type.STRING,
-                        description: "The pitch of the note in Scientific Pitch Notation (e.g., 'C4', 'F#5'). Use 'rest' for rests.",
+                        description: "The pitch of the note in Scientific Pitch Notation (e.g., 'C4', 'F#5'). Use 'rest' for rests. For a chord, the top pitch.",
+                      },
+                      chord: {
+                        type: Type.ARRAY,
+                        items: { type: Type.STRING },
+                        description: "For chords or divisi, the other pitches struck together with 'pitch' for the same duration (e.g., ['E4', 'C4']). Omit for single notes.",
                       },
                       duration: {
                         type: Type.STRING,
                         enum: ['whole', 'half', 'quarter', 'eighth', 'sixteenth'],
-                        description: "The duration of the note (whole, half, quarter, eighth, sixteenth).",
+                        description: "The duration of the note (whole, half, quarter, eighth, sixteenth), before any dots or tuplet.",
+                      },
+                      dots: {
+                        type: Type.INTEGER,
+                        description: "Number of augmentation dots: 1 for a dotted note (1.5x), 2 for double-dotted. Omit for undotted notes.",
+                      },
+                      tuplet: {
+                        type: Type.OBJECT,
+                        description: "Set for notes in a tuplet, e.g. { actual: 3, normal: 2 } for a triplet (3 notes in the time of 2).",
+                        properties: {
+                          actual: { type: Type.INTEGER },
+                          normal: { type: Type.INTEGER },
+                        },
+                        required: ['actual', 'normal'],
+                      },
+                      tie: {
+                        type: Type.BOOLEAN,
+                        description: "True if this note is tied to the next note of the same pitch (e.g. held across a barline).",
                       },
                     },
                     required: ['pitch', 'duration'],
                   },
                 },
+                confidence: {
+                  type: Type.NUMBER,
+                  description: "How sure you are that this measure is read correctly, from 0 (a guess) to 1 (certain).",
+                },
+                ambiguity: {
+                  type: Type.STRING,
+                  description: "When confidence is below 1, what was unclear, e.g. 'unclear whether dot is rest or dotted note'.",
+                },
               },
               required: ['notes'],
             },
@@ -63,6 +104,68 @@ const musicSchema = {
   required: ['tempo', 'timeSignature', 'parts'],
 };
 
+const EXTRACT_TEXT_PROMPT = `
+    You are an expert OCR system specializing in music. 
+    Your task is to extract all textual information from the provided image.
+    The image may contain standard staff notation, guitar tablature, or tonic sol-fa.
+    Present the output as plain text. 
+    Preserve the layout and structure of the original notation as closely as possible. 
+    Do not attempt to interpret or convert the notation, just extract the text you see.
+  `;
+
+const PARSE_MUSIC_PROMPT = `
+    You are an expert music theorist and programmer, with exceptional skill in interpreting text-based music notation, especially Tonic Sol-fa. Your task is to analyze the provided music notation and convert it into a structured JSON object. Your absolute top priority is to correctly interpret the rhythm—note durations, sustains, and rests—as this is where mistakes are most common.
+
+    **Core Principles for Rhythmic Interpretation:**
+
+    1.  **Analyze the Structure First:** Before assigning durations, scan the entire piece. Identify the time signature by counting the beats in several measures. Most simple hymns are 4/4, 3/4, or 2/4. Default to 4/4 if ambiguous, but let the notation guide you.
+    2.  **The Measure is King:** The total duration of notes and rests in a measure MUST add up to the time signature. Use this constraint to resolve ambiguities.
+
+    **Tonic Sol-fa Rhythmic Notation Guide:**
+
+    *   **Measures (\`|\`):** The pipe character separates measures. It's a hard boundary.
+    *   **Sustains (\`-\`):** A dash sustains the preceding note. In most conventions, a dash represents one full beat.
+        *   Example (4/4 time): \`d:- \` is a half note (2 beats). \`d:-:-:-\` is a whole note (4 beats).
+    *   **Dotted Notes (\`.\`):** A dot after a note increases its duration by 50%.
+        *   Example: In a measure like \`d. r | m -\`, \`d.\` is a dotted quarter note (1.5 beats) and \`r\` is an eighth note (0.5 beats).
+        *   Output dotted notes with \`duration\` set to the undotted value and \`dots: 1\` (a dotted quarter is \`{ duration: 'quarter', dots: 1 }\`). Never approximate them with plain durations.
+    *   **Triplets:** Three equal notes in one beat (\`d.r.m\` between colons) are triplet eighths: \`{ duration: 'eighth', tuplet: { actual: 3, normal: 2 } }\`.
+    *   **Held Across a Barline:** A dash at the start of a measure continues the previous measure's last note. Repeat that pitch in the new measure and set \`tie: true\` on the earlier note.
+    *   **Beat Separation (\`:\` or \` \`):** Colons and spaces are used to group notes. Their meaning can be contextual.
+        *   **Often, a colon separates full beats.** Example: \`d:r.m|f:s\` could be interpreted in 4/4 as: Beat 1=\`d\` (quarter); Beat 2=\`r.m\` (dotted-eighth + sixteenth); Beat 3=\`f\` (quarter); Beat 4=\`s\` (quarter).
+        *   **Spaces often subdivide a beat.** Example: \`s l\` could be two eighth notes making up one beat.
+    *   **Rests:** Rests are critical and often implied.
+        *   If a measure seems too short, it likely contains rests.
+        *   A blank space between beat separators (like \`d : : m\`) implies a rest.
+        *   A single dot \`.\` or a \`0\` on its own can also signify a rest for one beat.
+        *   **You MUST ensure measures are complete.** If a 4/4 measure only contains notation for 3 beats, you must add a quarter rest to complete it.
+
+    **General Instructions:**
+
+    *   For multi-part music (like SATB), create a separate entry in the 'parts' array for each voice.
+    *   When one part plays several pitches at once (piano chords, divisi), write a single note with the top pitch in 'pitch' and the others in 'chord'.
+    *   Convert all pitches to Scientific Pitch Notation (e.g., C4 for middle C).
+    *   Use 'rest' for the pitch of any rests, and assign them a valid duration.
+    *   Give every measure a 'confidence' from 0 to 1. Where you had to guess (smudged marks, a dot that could be a rest or a dotted note, an unclear octave), lower it and say what was unclear in 'ambiguity'.
+    *   Your final JSON output must be perfectly structured according to the schema. Double-check your work.
+
+    Music Notation Input:
+  `;
+
+const SCORE_IMAGE_PROMPT = `
+    You are an expert music engraver reading a photo or scan of sheet music. It may be staff notation or Tonic Sol-fa, for one voice or several.
+    Convert it into a structured JSON object following the schema. Your top priority is the rhythm: durations, dots, ties, tuplets and rests.
+
+    *   Use the layout: systems, braces and barlines tell you which staves belong to which part and where measures start.
+    *   For multi-part music (like SATB), create a separate entry in the 'parts' array for each voice. Keep the part names the same on every page.
+    *   Read the clef and key signature of each staff, and apply accidentals until the end of the measure.
+    *   Output dotted notes with \`dots\`, triplets with \`tuplet: { actual: 3, normal: 2 }\`, and set \`tie: true\` on a note tied to the next.
+    *   When one part plays several pitches at once, write a single note with the top pitch in 'pitch' and the others in 'chord'.
+    *   Convert all pitches to Scientific Pitch Notation (e.g., C4 for middle C) and use 'rest' for rests.
+    *   The notes and rests of every measure MUST add up to the time signature.
+    *   Give every measure a 'confidence' from 0 to 1. Where the image is blurred, cut off or ambiguous, lower it and say what was unclear in 'ambiguity'.
+  `;
+
 const fileToGenerativePart = async (file: File) => {
   const base64EncodedDataPromise = new Promise<string>((resolve) => {
     const reader = new FileReader();
@@ -76,7 +179,7 @@ const fileToGenerativePart = async (file: File) => {
 
 const generateWithTimeout = <T>(promise: Promise<T>, timeoutMs: number, timeoutMessage: string, signal?: AbortSignal): Promise<T> => {
     if (signal?.aborted) {
-        return Promise.reject(new DOMException('Aborted', 'AbortError'));
+        return Promise.reject(new TranscriptionError('cancelled', 'The request was cancelled.'));
     }
 
     let timeoutId: number;
@@ -84,7 +187,7 @@ const generateWithTimeout = <T>(promise: Promise<T>, timeoutMs: number, timeoutM
 
     const timeoutPromise = new Promise<T>((_, reject) => {
         timeoutId = window.setTimeout(() => {
-            reject(new Error(timeoutMessage));
+            reject(new TranscriptionError('timeout', timeoutMessage));
         }, timeoutMs);
     });
 
@@ -92,7 +195,7 @@ const generateWithTimeout = <T>(promise: Promise<T>, timeoutMs: number, timeoutM
 
     if (signal) {
         const abortPromise = new Promise<T>((_, reject) => {
-            abortHandler = () => reject(new DOMException('Aborted', 'AbortError'));
+            abortHandler = () => reject(new TranscriptionError('cancelled', 'The request was cancelled.'));
             signal.addEventListener('abort', abortHandler);
         });
         promisesToRace.push(abortPromise);
@@ -108,100 +211,55 @@ const generateWithTimeout = <T>(promise: Promise<T>, timeoutMs: number, timeoutM
 
 const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
 
-async function generateContentWithRetry(
-    generateFn: () => Promise<GenerateContentResponse>,
+async function generateContentWithRetry<T>(
+    generateFn: () => Promise<T>,
     timeoutMs: number,
     timeoutMessage: string,
     maxRetries = 3,
     initialDelay = 2000,
     signal?: AbortSignal
-): Promise<GenerateContentResponse> {
+): Promise<T> {
     let attempt = 1;
     let currentDelay = initialDelay;
 
     while (attempt <= maxRetries) {
-        signal?.throwIfAborted();
+        if (signal?.aborted) {
+            throw new TranscriptionError('cancelled', 'The request was cancelled.');
+        }
         try {
             const apiPromise = generateFn();
             return await generateWithTimeout(apiPromise, timeoutMs, timeoutMessage, signal);
         } catch (error) {
-            if (error instanceof DOMException && error.name === 'AbortError') {
-                throw error; // Re-throw cancellation to stop retries
+            const transcriptionError = toTranscriptionError(error);
+            if (transcriptionError.kind === 'cancelled') {
+                throw transcriptionError; // Re-throw cancellation to stop retries
             }
             console.warn(`API call failed on attempt ${attempt} of ${maxRetries}.`, error);
 
-            let errorMessage = "An unknown error occurred.";
-            if (error instanceof Error) {
-                errorMessage = error.message;
-            } else if (error && typeof error === 'object' && 'message' in error) {
-                errorMessage = String((error as {message: string}).message);
-            } else {
-                try {
-                    errorMessage = JSON.stringify(error);
-                } catch {
-                    errorMessage = String(error);
-                }
-            }
-            
-            const lowerErrorMessage = errorMessage.toLowerCase();
-            const isRetryable = lowerErrorMessage.includes("503") || 
-                                lowerErrorMessage.includes("overloaded") || 
-                                lowerErrorMessage.includes("try again later") ||
-                                lowerErrorMessage.includes("took too long to respond");
-            
-            if (isRetryable && attempt < maxRetries) {
-                console.log(`Retrying in ${currentDelay}ms...`);
-                await delay(currentDelay);
-                currentDelay *= 2; // Exponential backoff
-                attempt++;
-            } else {
-                let finalMessage = "The AI model could not process the request. Please try again later.";
-                try {
-                    const jsonStartIndex = errorMessage.indexOf('{');
-                    if (jsonStartIndex > -1) {
-                        const jsonPart = errorMessage.substring(jsonStartIndex);
-                        const parsedError = JSON.parse(jsonPart);
-                        if (parsedError.error && parsedError.error.message) {
-                            finalMessage = parsedError.error.message;
-                        } else {
-                             finalMessage = errorMessage;
-                        }
-                    } else {
-                        finalMessage = errorMessage;
-                    }
-                } catch (e) {
-                     finalMessage = errorMessage;
-                }
-                throw new Error(finalMessage);
+            const retryAfterMs = transcriptionError.retryAfterMs ?? 0;
+            const canRetry = transcriptionError.isRetryable && retryAfterMs <= MAX_RETRY_AFTER_MS;
+            if (!canRetry || attempt >= maxRetries) {
+                throw transcriptionError;
             }
+
+            const waitMs = Math.max(currentDelay, retryAfterMs);
+            console.log(`Retrying in ${waitMs}ms...`);
+            await delay(waitMs);
+            currentDelay *= 2; // Exponential backoff
+            attempt++;
         }
     }
-    throw new Error("Exhausted all retries for the AI API call.");
+    throw new TranscriptionError('unknown', "Exhausted all retries for the AI API call.");
 }
 
-export const extractTextFromImage = async (file: File, options?: RequestOptions): Promise<string> => {
-  if (!process.env.API_KEY) {
-    throw new Error("Your Google AI API Key is not configured. Please ensure the API_KEY environment variable is set for this application to function.");
-  }
-  
-  const prompt = `
-    You are an expert OCR system specializing in music. 
-    Your task is to extract all textual information from the provided image.
-    The image may contain standard staff notation, guitar tablature, or tonic sol-fa.
-    Present the output as plain text. 
-    Preserve the layout and structure of the original notation as closely as possible. 
-    Do not attempt to interpret or convert the notation, just extract the text you see.
-  `;
-  
+export const extractTextFromImage = async (ai: GoogleGenAI, file: File, options?: RequestOptions): Promise<string> => {
   try {
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-    
     const imagePart = await fileToGenerativePart(file);
 
     const response = await generateContentWithRetry(
         () => ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: { parts: [{ text: prompt }, imagePart] },
+            model: MODEL,
+            contents: { parts: [{ text: EXTRACT_TEXT_PROMPT }, imagePart] },
         }),
         120000,
         "The AI model took too long to respond while extracting text from the image.",
@@ -213,75 +271,102 @@ export const extractTextFromImage = async (file: File, options?: RequestOptions)
     return response.text;
   } catch (error) {
     console.error("Error calling Gemini API for text extraction:", error);
-    if (error instanceof Error && error.name !== 'AbortError') {
-        throw new Error(`Failed to extract text from image: ${error.message}`);
-    } else if (error instanceof DOMException && error.name === 'AbortError') {
-        throw error;
-    }
-    throw new Error("Failed to extract text from image. The AI model could not process the input.");
+    throw toTranscriptionError(error);
   }
 };
 
 
-export const parseSheetMusic = async (notationText: string, options?: RequestOptions): Promise<ParsedMusic> => {
-  if (!process.env.API_KEY) {
-    throw new Error("Your Google AI API Key is not configured. Please ensure the API_KEY environment variable is set for this application to function.");
-  }
-  
-  let processedNotationText = notationText;
-  // Pre-process if the input is text-only and looks like solfege
-  if (notationText && SolfegeParser.isSolfege(notationText)) {
-      processedNotationText = SolfegeParser.preProcessForAI(notationText);
-  }
-
-  const prompt = `
-    You are an expert music theorist and programmer, with exceptional skill in interpreting text-based music notation, especially Tonic Sol-fa. Your task is to analyze the provided music notation and convert it into a structured JSON object. Your absolute top priority is to correctly interpret the rhythm—note durations, sustains, and rests—as this is where mistakes are most common.
-
-    **Core Principles for Rhythmic Interpretation:**
+// Reads the model's JSON answer, adapting the older top-level `measures` format.
+const toParsedMusic = (jsonText: string): ParsedMusic => {
+    const parsedJson = JSON.parse(jsonText.trim());
 
-    1.  **Analyze the Structure First:** Before assigning durations, scan the entire piece. Identify the time signature by counting the beats in several measures. Most simple hymns are 4/4, 3/4, or 2/4. Default to 4/4 if ambiguous, but let the notation guide you.
-    2.  **The Measure is King:** The total duration of notes and rests in a measure MUST add up to the time signature. Use this constraint to resolve ambiguities.
-
-    **Tonic Sol-fa Rhythmic Notation Guide:**
-
-    *   **Measures (\`|\`):** The pipe character separates measures. It's a hard boundary.
-    *   **Sustains (\`-\`):** A dash sustains the preceding note. In most conventions, a dash represents one full beat.
-        *   Example (4/4 time): \`d:- \` is a half note (2 beats). \`d:-:-:-\` is a whole note (4 beats).
-    *   **Dotted Notes (\`.\`):** A dot after a note increases its duration by 50%.
-        *   Example: In a measure like \`d. r | m -\`, \`d.\` is a dotted quarter note (1.5 beats) and \`r\` is an eighth note (0.5 beats).
-    *   **Beat Separation (\`:\` or \` \`):** Colons and spaces are used to group notes. Their meaning can be contextual.
-        *   **Often, a colon separates full beats.** Example: \`d:r.m|f:s\` could be interpreted in 4/4 as: Beat 1=\`d\` (quarter); Beat 2=\`r.m\` (dotted-eighth + sixteenth); Beat 3=\`f\` (quarter); Beat 4=\`s\` (quarter).
-        *   **Spaces often subdivide a beat.** Example: \`s l\` could be two eighth notes making up one beat.
-    *   **Rests:** Rests are critical and often implied.
-        *   If a measure seems too short, it likely contains rests.
-        *   A blank space between beat separators (like \`d : : m\`) implies a rest.
-        *   A single dot \`.\` or a \`0\` on its own can also signify a rest for one beat.
-        *   **You MUST ensure measures are complete.** If a 4/4 measure only contains notation for 3 beats, you must add a quarter rest to complete it.
-
-    **General Instructions:**
+    // Ensure the response has a `parts` array, even if the AI failed to provide one.
+    if (!parsedJson.parts || !Array.isArray(parsedJson.parts)) {
+        if (parsedJson.measures) {
+            // If the old `measures` format is returned, adapt it to the new structure.
+            parsedJson.parts = [{ partName: 'Main', measures: parsedJson.measures }];
+            delete parsedJson.measures;
+        } else {
+            throw new TranscriptionError('bad-response', "AI response did not contain the expected 'parts' array.");
+        }
+    }
+    
+    return parsedJson;
+};
 
-    *   For multi-part music (like SATB), create a separate entry in the 'parts' array for each voice.
-    *   Convert all pitches to Scientific Pitch Notation (e.g., C4 for middle C).
-    *   Use 'rest' for the pitch of any rests, and assign them a valid duration.
-    *   Your final JSON output must be perfectly structured according to the schema. Double-check your work.
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNote = (value: unknown): value is Note =>
+    isRecord(value) && typeof value.pitch === 'string' && typeof value.duration === 'string';
+
+const isMeasureInProgress = (value: unknown): value is Record<string, unknown> & { notes: unknown[] } =>
+    isRecord(value) && Array.isArray(value.notes);
+
+const toPartialPart = (part: unknown): Part => {
+    const fields = isRecord(part) ? part : {};
+    const measures = Array.isArray(fields.measures) ? fields.measures.filter(isMeasureInProgress) : [];
+    return {
+        partName: typeof fields.partName === 'string' ? fields.partName : '',
+        measures: measures.map(measure => {
+            const narrowed: Measure = { notes: measure.notes.filter(isNote) };
+            if (typeof measure.confidence === 'number') narrowed.confidence = measure.confidence;
+            if (typeof measure.ambiguity === 'string') narrowed.ambiguity = measure.ambiguity;
+            return narrowed;
+        }),
+    };
+};
 
-    Music Notation Input:
-  `;
+// The measures that have fully arrived in a streamed answer; a note is kept once it has a pitch and duration.
+const toPartialMusic = (jsonText: string): ParsedMusic | null => {
+    const partial: unknown = parsePartialJson(jsonText);
+    if (!isRecord(partial) || !Array.isArray(partial.parts)) return null;
+    return {
+        tempo: typeof partial.tempo === 'number' ? partial.tempo : 120,
+        timeSignature: typeof partial.timeSignature === 'string' ? partial.timeSignature : '4/4',
+        parts: partial.parts.map(toPartialPart),
+    };
+};
 
+const progressOf = (partial: ParsedMusic, details: Omit<TranscriptionProgress, 'partial' | 'measuresParsed'> = {}): TranscriptionProgress => ({
+    ...details,
+    partial,
+    measuresParsed: Math.max(0, ...partial.parts.map(part => part.measures.length)),
+});
+
+/**
+ * Asks the AI for a score, then checks the answer with `validateScore`. If measures don't
+ * add up or pitches don't parse, the errors are sent back for a corrected answer, for at most
+ * `MAX_REPAIR_ROUNDS` rounds; a round is only kept if it leaves fewer errors than before.
+ */
+const requestScore = async (ai: GoogleGenAI, request: Content['parts'], options?: RequestOptions): Promise<TranscriptionResult> => {
   try {
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-
-    const contents = { parts: [ {text: prompt}, {text: processedNotationText} ] };
-
-    const response = await generateContentWithRetry(
-        () => ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: contents,
-            config: {
-                responseMimeType: 'application/json',
-                responseSchema: musicSchema,
-            },
-        }),
+    // The repair rounds continue this conversation, so the model sees its own answer and the errors in it.
+    const conversation: Content[] = [{ role: 'user', parts: request }];
+
+    // Answers are streamed so the score so far can be shown while a long piece arrives.
+    const requestMusic = (repairRound?: number) => generateContentWithRetry(
+        async () => {
+            const stream = await ai.models.generateContentStream({
+                model: MODEL,
+                contents: conversation,
+                config: {
+                    responseMimeType: 'application/json',
+                    responseSchema: musicSchema,
+                    abortSignal: options?.signal,
+                },
+            });
+            let text = '';
+            for await (const chunk of stream) {
+                if (options?.signal?.aborted) break;
+                text += chunk.text ?? '';
+                const partial = options?.onProgress && toPartialMusic(text);
+                if (partial) {
+                    options.onProgress!(progressOf(partial, { partName: partial.parts[partial.parts.length - 1]?.partName, repairRound }));
+                }
+            }
+            return text;
+        },
         240000, // 240 seconds (4 minutes)
         "The AI model took too long to respond. This might be due to an invalid API key, network issues, or high server load. Please check your API key configuration and try again.",
         3,
@@ -289,86 +374,135 @@ export const parseSheetMusic = async (notationText: string, options?: RequestOpt
         options?.signal
     );
 
-    const jsonText = response.text.trim();
-    const parsedJson = JSON.parse(jsonText);
+    let responseText = await requestMusic();
+    let music = toParsedMusic(responseText);
+    let issues = validateScore(music);
+    const repairs: MeasureRepair[] = [];
 
-    // Ensure the response has a `parts` array, even if the AI failed to provide one.
-    if (!parsedJson.parts || !Array.isArray(parsedJson.parts)) {
-        if (parsedJson.measures) {
-            // If the old `measures` format is returned, adapt it to the new structure.
-            parsedJson.parts = [{ partName: 'Main', measures: parsedJson.measures }];
-            delete parsedJson.measures;
-        } else {
-            throw new Error("AI response did not contain the expected 'parts' array.");
+    for (let round = 1; round <= MAX_REPAIR_ROUNDS && countErrors(issues) > 0; round++) {
+        conversation.push(
+            { role: 'model', parts: [{ text: responseText }] },
+            { role: 'user', parts: [{ text: buildRepairPrompt(music, issues) }] }
+        );
+
+        let repairedText: string;
+        let repaired: ParsedMusic;
+        try {
+            repairedText = await requestMusic(round);
+            repaired = toParsedMusic(repairedText);
+        } catch (error) {
+            if (toTranscriptionError(error).kind === 'cancelled') {
+                throw error;
+            }
+            // A failed repair still leaves the first answer, which the UI flags as it is.
+            console.warn(`Repair round ${round} failed; keeping the previous answer.`, error);
+            break;
         }
+
+        const repairedIssues = validateScore(repaired);
+        if (countErrors(repairedIssues) >= countErrors(issues)) {
+            console.warn(`Repair round ${round} did not reduce the number of errors; keeping the previous answer.`);
+            break;
+        }
+        repairs.push(...diffRepairs(music, repaired, issues, repairedIssues, round));
+        responseText = repairedText;
+        music = repaired;
+        issues = repairedIssues;
     }
-    
-    const result: ParsedMusic = parsedJson;
-    return result;
+
+    return { music, repairs };
 
   } catch (error) {
     console.error("Error calling Gemini API:", error);
-    if (error instanceof Error && error.name !== 'AbortError') {
-        throw new Error(`Failed to parse sheet music: ${error.message}`);
-    } else if (error instanceof DOMException && error.name === 'AbortError') {
-        throw error;
-    }
-    throw new Error("Failed to parse sheet music. The AI model could not process the input.");
+    throw toTranscriptionError(error);
   }
 };
 
-export const convertToSolfa = async (music: ParsedMusic, key: string): Promise<string> => {
-  if (!process.env.API_KEY) {
-    throw new Error("Your Google AI API Key is not configured. Please ensure the API_KEY environment variable is set for this application to function.");
+export const parseSheetMusic = async (ai: GoogleGenAI, notationText: string, options?: RequestOptions): Promise<TranscriptionResult> => {
+  let processedNotationText = notationText;
+  // Pre-process if the input is text-only and looks like solfege
+  if (notationText && SolfegeParser.isSolfege(notationText)) {
+      processedNotationText = SolfegeParser.preProcessForAI(notationText);
   }
 
-  const formatMusicForPrompt = (music: ParsedMusic): string => {
-    return music.parts.map(part => {
-        const measuresStr = part.measures.map(measure => 
-            measure.notes.map(note => `${note.pitch}:${note.duration}`).join(' ')
-        ).join(' | ');
-        return `${part.partName}: ${measuresStr}`;
-    }).join('\n');
-  };
-
-  const formattedMusic = formatMusicForPrompt(music);
-
-  const prompt = `
-    You are an expert music theorist specializing in Tonic Sol-fa notation.
-    Your task is to convert the provided musical data from scientific pitch notation into standard Tonic Sol-fa notation.
-
-    Target Key: ${key} Major.
-    - 'do' should correspond to the tonic of ${key} Major.
-    - Use standard abbreviated solfege syllables (d, r, m, f, s, l, t).
-    - Infer the correct octave using commas (,) for lower octaves and apostrophes (') for higher octaves.
-    - Represent rhythm using common Tonic Sol-fa conventions. The input format is "Pitch:Duration". Use colons, periods, dashes, and bars (|) to represent the rhythm accurately.
-    - Format the output clearly, with each part on a new line, prefixed by its name (e.g., "S: ").
-
-    Music Data:
-    ${formattedMusic}
+  return requestScore(ai, [ {text: PARSE_MUSIC_PROMPT}, {text: processedNotationText} ], options);
+};
 
-    Provide only the resulting Tonic Sol-fa text as your response. Start with "Doh is ${key}".
-  `;
+/**
+ * Reads a score straight from a photo or PDF, skipping the text step so the layout isn't lost.
+ * Each PDF page is requested (and repaired) on its own and the pages are joined in order.
+ */
+export const transcribeScoreImage = async (ai: GoogleGenAI, file: File, options?: RequestOptions): Promise<TranscriptionResult> => {
+  const filePart = await fileToGenerativePart(file);
+  const pageCount = file.type === 'application/pdf' ? countPdfPages(await file.arrayBuffer()) : 1;
+
+  if (pageCount <= 1) {
+    const scope = file.type === 'application/pdf'
+      ? 'Transcribe every page of this document in order, numbering the measures on from page to page.'
+      : 'Transcribe the music in this image.';
+    return requestScore(ai, [ {text: SCORE_IMAGE_PROMPT}, filePart, {text: scope} ], options);
+  }
 
-  try {
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-    
-    const response = await generateContentWithRetry(
-      () => ai.models.generateContent({
-        model: 'gemini-2.5-flash',
-        contents: prompt,
-      }),
-      120000, // 2 minute timeout
-      "The AI model took too long to respond during the conversion."
-    );
+  const pages: TranscriptionResult[] = [];
+  for (let page = 1; page <= pageCount; page++) {
+    const scope = `Transcribe only page ${page} of the ${pageCount} pages in this document. Number its measures from 1.`;
+    // Progress shows the finished pages with the current one appended.
+    const onProgress = options?.onProgress && ((progress: TranscriptionProgress) => options.onProgress!(progressOf(
+        joinPages([...pages, { music: progress.partial, repairs: [] }]).music,
+        { partName: progress.partName, repairRound: progress.repairRound, page, pageCount }
+    )));
+    pages.push(await requestScore(ai, [ {text: SCORE_IMAGE_PROMPT}, filePart, {text: scope} ], { ...options, onProgress }));
+  }
+  return joinPages(pages);
+};
 
-    return response.text;
+// Looks the request up in the cache unless bypassed, otherwise runs it and stores the answer.
+const withCache = async <T>(
+    cache: TranscriptionCache | null,
+    key: string,
+    entry: Pick<CacheEntry, 'kind' | 'label'>,
+    options: RequestOptions | undefined,
+    run: () => Promise<T>
+): Promise<T> => {
+    if (cache && !options?.bypassCache) {
+        const cached = await cache.get<T>(key);
+        if (cached) return cached.value;
+    }
+    const value = await run();
+    await cache?.set({ ...entry, key, model: MODEL, createdAt: Date.now(), value });
+    return value;
+};
 
-  } catch (error) {
-    console.error("Error calling Gemini API for Sol-fa conversion:", error);
-    if (error instanceof Error) {
-        throw new Error(`Failed to convert to Tonic Sol-fa: ${error.message}`);
+/**
+ * The Gemini backend. Without an API key it still loads, but every request fails with a message saying so.
+ * Answers are cached under a hash of the input, prompt, schema and model, so a prompt change misses the cache.
+ */
+export const createGeminiProvider = (apiKey: string | undefined = process.env.API_KEY, cache: TranscriptionCache | null = null): TranscriptionProvider => {
+  const getClient = () => {
+    if (!apiKey) {
+      throw new TranscriptionError('missing-key', "Your Google AI API Key is not configured. Please ensure the API_KEY environment variable is set for this application to function.");
     }
-    throw new Error("Failed to convert to Tonic Sol-fa. The AI model could not process the request.");
-  }
+    return new GoogleGenAI({ apiKey });
+  };
+
+  return {
+    id: 'gemini',
+    label: 'Gemini AI',
+    extractText: async (file, options) => {
+      const client = getClient();
+      const key = await hashCacheKey('text', MODEL, EXTRACT_TEXT_PROMPT, file.type, await file.arrayBuffer());
+      return withCache(cache, key, { kind: 'text', label: file.name }, options, () => extractTextFromImage(client, file, options));
+    },
+    parseMusic: async (notationText, options) => {
+      const client = getClient();
+      const key = await hashCacheKey('music', MODEL, PARSE_MUSIC_PROMPT, JSON.stringify(musicSchema), String(MAX_REPAIR_ROUNDS), notationText);
+      const label = notationText.trim().split('\n')[0].slice(0, 80);
+      return withCache(cache, key, { kind: 'music', label }, options, () => parseSheetMusic(client, notationText, options));
+    },
+    transcribeScore: async (file, options) => {
+      const client = getClient();
+      const key = await hashCacheKey('score', MODEL, SCORE_IMAGE_PROMPT, JSON.stringify(musicSchema), String(MAX_REPAIR_ROUNDS), file.type, await file.arrayBuffer());
+      return withCache(cache, key, { kind: 'music', label: file.name }, options, () => transcribeScoreImage(client, file, options));
+    },
+  };
 };
@@ -0,0 +1,129 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { LocalTranscriptionProvider } from './localTranscription';
+import { SoundEngine } from './soundEngine';
+import { MIDIGenerator } from './midiGenerator';
+import { MIDIReader } from './midiReader';
+
+interface ScheduledPart {
+    callback: (time: number, value: any) => void;
+    events: [number, any][];
+}
+
+// Just enough of Tone.js for SoundEngine: parts keep their events so the test can play them by hand.
+const createFakeTone = () => {
+    const parts: ScheduledPart[] = [];
+    const struck: { pitch: string; duration: number; time: number }[] = [];
+    const listeners: Record<string, () => void> = {};
+    let stopAt: { callback: () => void; time: number } | null = null;
+
+    const tone = {
+        start: async () => {},
+        Transport: {
+            bpm: { value: 0 },
+            on: (event: string, listener: () => void) => { listeners[event] = listener; },
+            scheduleOnce: (callback: () => void, time: number) => { stopAt = { callback, time }; },
+            start: () => {},
+            stop: () => listeners.stop?.(),
+            cancel: () => {},
+        },
+        Draw: { schedule: (callback: () => void) => callback(), cancel: () => {} },
+        Part: class {
+            private part: ScheduledPart;
+            constructor(callback: ScheduledPart['callback'], events: [number, any][]) {
+                this.part = { callback, events: [...events] };
+                parts.push(this.part);
+            }
+            start() { return this; }
+            add(time: number, value: any) { this.part.events.push([time, value]); }
+        },
+        Channel: class {
+            volume = { value: 0 };
+            pan = { value: 0 };
+            mute = false;
+            toDestination() { return this; }
+            dispose() {}
+        },
+        PolySynth: class {
+            triggerAttackRelease(pitch: string, duration: number, time: number) { struck.push({ pitch, duration, time }); }
+            connect() { return this; }
+            releaseAll() {}
+            dispose() {}
+        },
+        Synth: class {},
+    };
+
+    // Runs every scheduled event in time order, then the transport's stop.
+    const run = () => {
+        parts
+            .flatMap(part => part.events.map(([time, value]) => ({ time, run: () => part.callback(time, value) })))
+            .sort((a, b) => a.time - b.time)
+            .forEach(event => event.run());
+        stopAt?.callback();
+    };
+
+    return { tone, struck, run, stopTime: () => stopAt?.time };
+};
+
+describe('offline import, playback and export', () => {
+    let fake: ReturnType<typeof createFakeTone>;
+    const fetch = vi.fn(() => Promise.reject(new Error('The offline flow must not use the network.')));
+
+    beforeEach(() => {
+        fake = createFakeTone();
+        vi.stubGlobal('Tone', fake.tone);
+        vi.stubGlobal('fetch', fetch);
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+        fetch.mockClear();
+    });
+
+    it('imports the sample hymn, schedules it for playback and exports it as MIDI', async () => {
+        const provider = new LocalTranscriptionProvider();
+        const { music } = await provider.transcribeScore(new File([], 'sample-hymn.jpg', { type: 'image/jpeg' }));
+
+        expect(music.tempo).toBe(96);
+        expect(music.parts.map(part => part.partName)).toEqual(['Soprano', 'Alto', 'Tenor', 'Bass']);
+
+        const engine = new SoundEngine();
+        const onEnded = vi.fn();
+        const positions: string[] = [];
+        engine.setPositionListener(position => positions.push(`${position.partName} ${position.measureIndex}:${position.noteIndex}`));
+        await engine.play(music, 60, onEnded, 'Soprano');
+        fake.run();
+
+        // At 60 BPM a beat is a second: d d r m | f (held two beats) m (held two) | ...
+        expect(fake.struck.slice(0, 6)).toEqual([
+            { pitch: 'G4', duration: 1, time: 0 },
+            { pitch: 'G4', duration: 1, time: 1 },
+            { pitch: 'A4', duration: 1, time: 2 },
+            { pitch: 'B4', duration: 1, time: 3 },
+            { pitch: 'C5', duration: 2, time: 4 },
+            { pitch: 'B4', duration: 2, time: 6 },
+        ]);
+        expect(positions.slice(0, 5)).toEqual(['Soprano 0:0', 'Soprano 0:1', 'Soprano 0:2', 'Soprano 0:3', 'Soprano 1:0']);
+        expect(fake.stopTime()).toBe(16);
+        expect(onEnded).toHaveBeenCalledTimes(1);
+
+        const midi = new MIDIGenerator().generateMIDI(music.parts, music.tempo);
+        const exported = new MIDIReader().readMIDI(midi).music;
+
+        expect(exported.tempo).toBe(96);
+        expect(exported.parts.map(part => part.measures.flatMap(measure => measure.notes.map(note => note.pitch))))
+            .toEqual(music.parts.map(part => part.measures.flatMap(measure => measure.notes.map(note => note.pitch))));
+        expect(fetch).not.toHaveBeenCalled();
+    });
+
+    it('refuses what it can\'t read, without falling back to the network', async () => {
+        const provider = new LocalTranscriptionProvider();
+        const controller = new AbortController();
+        controller.abort();
+
+        await expect(provider.parseMusic('X: 1\nK: G\nGABc')).rejects.toMatchObject({ kind: 'unsupported-input' });
+        await expect(provider.parseMusic('d :r :m :f\nS: s :l :t :d')).rejects.toMatchObject({ kind: 'unsupported-input', message: expect.stringContaining('Prefix each line') });
+        await expect(provider.extractText(new File([], 'photo.png', { type: 'image/png' }))).rejects.toMatchObject({ kind: 'unsupported-input' });
+        await expect(provider.parseMusic('S: d :r :m :f', { signal: controller.signal })).rejects.toMatchObject({ kind: 'cancelled' });
+        expect(fetch).not.toHaveBeenCalled();
+    });
+});
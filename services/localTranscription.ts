@@ -0,0 +1,81 @@
+import { ParsedMusic } from '../types';
+import { SolfegeParser } from './solfegeParser';
+import { solfaScoreToParsedMusic } from './solfaConverter';
+import { RequestOptions, TranscriptionProvider, TranscriptionResult } from './transcriptionProvider';
+import { TranscriptionError } from './transcriptionErrors';
+
+/** Canned answers for input the local provider can't read itself, such as photos and staff notation. */
+export interface TranscriptionFixtures {
+    texts?: Record<string, string>; // file name -> the text "seen" in that image
+    scores?: Record<string, ParsedMusic>; // notation text (trimmed) -> its score
+}
+
+const SAMPLE_HYMN = `Doh is G
+Tempo: 96
+// Verse 1
+S: d :d :r :m | f :- :m :- | s :s :l :s | m :- :- :- ||
+A: d :d :t,:d | r :- :d :- | m :m :f :m | d :- :- :- ||
+T: m :m :s :s | l :- :s :- | d':d':d':d'| s :- :- :- ||
+B: d :d :s,:d | f,:- :d :- | d :d :f :d | d :- :- :- ||`;
+
+export const DEFAULT_FIXTURES: TranscriptionFixtures = {
+    texts: { 'sample-hymn.jpg': SAMPLE_HYMN, 'sample-hymn.png': SAMPLE_HYMN },
+};
+
+const TEXT_FILE_PATTERN = /^text\/|\.(txt|sfa|solfa)$/i;
+
+const throwIfCancelled = (options?: RequestOptions) => {
+    if (options?.signal?.aborted) {
+        throw new TranscriptionError('cancelled', 'The request was cancelled.');
+    }
+};
+
+/**
+ * An offline provider with deterministic answers: Tonic Sol-fa is parsed by `SolfegeParser`,
+ * plain-text files are read as they are, and anything else must be in the fixtures.
+ */
+export class LocalTranscriptionProvider implements TranscriptionProvider {
+    readonly id = 'local';
+    readonly label = 'Offline (sol-fa only)';
+    private parser = new SolfegeParser();
+
+    constructor(private fixtures: TranscriptionFixtures = DEFAULT_FIXTURES) {}
+
+    async extractText(file: File, options?: RequestOptions): Promise<string> {
+        throwIfCancelled(options);
+
+        const fixture = this.fixtures.texts?.[file.name];
+        if (fixture !== undefined) return fixture;
+
+        if (TEXT_FILE_PATTERN.test(file.type) || TEXT_FILE_PATTERN.test(file.name)) {
+            return file.text();
+        }
+        throw new TranscriptionError('unsupported-input', `The offline provider can't read "${file.name}". Type or paste the notation instead, or set a Gemini API key to read images.`);
+    }
+
+    async parseMusic(notationText: string, options?: RequestOptions): Promise<TranscriptionResult> {
+        throwIfCancelled(options);
+
+        const fixture = this.fixtures.scores?.[notationText.trim()];
+        if (fixture) {
+            return { music: structuredClone(fixture), repairs: [] };
+        }
+
+        if (SolfegeParser.isSolfege(notationText)) {
+            const score = this.parser.parse(notationText);
+            if (!score.isPlaced) {
+                throw new TranscriptionError('unsupported-input', 'Some sol-fa lines could not be matched to their parts. Prefix each line with its part (e.g. "S:"), or set a Gemini API key to let the AI sort them out.');
+            }
+            const music = solfaScoreToParsedMusic(score);
+            if (music.parts.length > 0) {
+                return { music, repairs: [] };
+            }
+        }
+        throw new TranscriptionError('unsupported-input', 'The offline provider only reads Tonic Sol-fa. Set a Gemini API key to import other notation.');
+    }
+
+    // Reads the file's text (from the fixtures or a text file) and parses it, as the two-step import would.
+    async transcribeScore(file: File, options?: RequestOptions): Promise<TranscriptionResult> {
+        return this.parseMusic(await this.extractText(file, options), options);
+    }
+}
@@ -1,4 +1,6 @@
-import { Note, Measure, Part } from '../types';
+import { Part } from '../types';
+import { noteBeats, soundingNotes } from './noteDurations';
+import { nameToKeySignature } from './midiKeySignatures';
 
 // prettier-ignore
 const PITCH_TO_MIDI: { [key: string]: number } = {
@@ -13,12 +15,49 @@ const PITCH_TO_MIDI: { [key: string]: number } = {
     'C8': 108, 'C#8': 109, 'Db8': 109, 'D8': 110, 'D#8': 111, 'Eb8': 111, 'E8': 112, 'F8': 113, 'F#8': 114, 'Gb8': 114, 'G8': 115, 'G#8': 116, 'Ab8': 116, 'A8': 117, 'A#8': 118, 'Bb8': 118, 'B8': 119
 };
 
-const pitchToMidiNumber = (pitch: string): number | null => {
-    return PITCH_TO_MIDI[pitch] || null;
+const LETTER_TO_SEMITONE: { [key: string]: number } = { 'C': 0, 'D': 2, 'E': 4, 'F': 5, 'G': 7, 'A': 9, 'B': 11 };
+
+export const pitchToMidiNumber = (pitch: string): number | null => {
+    if (PITCH_TO_MIDI[pitch]) {
+        return PITCH_TO_MIDI[pitch];
+    }
+    // Spellings outside the table, such as Cb4, E#3 or Fbb5 from chromatic sol-fa.
+    const match = pitch.match(/^([A-G])(#{1,2}|b{1,2})?(\d)$/);
+    if (!match) {
+        return null;
+    }
+    const accidentals = match[2] || '';
+    const alteration = accidentals.startsWith('#') ? accidentals.length : -accidentals.length;
+    return 12 * (Number(match[3]) + 1) + LETTER_TO_SEMITONE[match[1]] + alteration;
+};
+
+export interface MidiExportOptions {
+    ppq?: number; // ticks per quarter note, 96 by default
+    timeSignature?: string; // e.g. "3/4"
+    key?: string; // the app's key name, e.g. "Eb" or "Cm"
+    velocity?: number; // 1-127, 100 by default
+}
+
+// General MIDI programs (0-based): voices get Choir Aahs, keyboard parts a piano or organ.
+const CHOIR_AAHS = 52;
+const PROGRAMS_BY_NAME: [RegExp, number][] = [
+    [/organ/i, 19],
+    [/piano|keyboard|\b(right|left) hand\b|\b(rh|lh)\b|accompaniment/i, 0],
+];
+
+const DRUM_CHANNEL = 9;
+const DEFAULT_PPQ = 96;
+
+export const programForPart = (partName: string): number => PROGRAMS_BY_NAME.find(([pattern]) => pattern.test(partName))?.[1] ?? CHOIR_AAHS;
+
+// Parts take channels 1-16 in order, skipping the General MIDI drum channel.
+export const channelForPart = (index: number): number => {
+    const channel = index % 15;
+    return channel >= DRUM_CHANNEL ? channel + 1 : channel;
 };
 
 export class MIDIGenerator {
-    generateMIDI(parts: Part[], tempo: number = 120, targetPartName?: string): Uint8Array {
+    generateMIDI(parts: Part[], tempo: number = 120, targetPartName?: string, options: MidiExportOptions = {}): Uint8Array {
         const partsToProcess = targetPartName && targetPartName.toLowerCase() !== 'all'
             ? parts.filter(p => p.partName.toLowerCase() === targetPartName.toLowerCase())
             : parts;
@@ -28,12 +67,14 @@ export class MIDIGenerator {
             return new Uint8Array();
         }
 
-        const header = this.createMidiHeader(partsToProcess.length);
+        const ppq = options.ppq ?? DEFAULT_PPQ;
+        const header = this.createMidiHeader(partsToProcess.length, ppq);
         
         const trackChunks = partsToProcess.map((part, index) => {
-            // Tempo event should only be in the first track of a Format 1 MIDI file.
-            const includeTempo = index === 0;
-            return this.createTrackChunk(part.measures, includeTempo ? tempo : undefined);
+            // Tempo, time and key signature events should only be in the first track of a Format 1 MIDI file.
+            const conductorEvents = index === 0 ? this.createConductorEvents(tempo, options) : [];
+            // A part keeps its channel from its place in the whole score, as in live playback, when exported alone.
+            return this.createTrackChunk(part, channelForPart(parts.indexOf(part)), conductorEvents, ppq, options.velocity ?? 100);
         });
         
         const allTrackBytes = trackChunks.flat();
@@ -41,52 +82,75 @@ export class MIDIGenerator {
         return new Uint8Array([...header, ...allTrackBytes]);
     }
 
-    private createMidiHeader(numTracks: number): Uint8Array {
+    private createMidiHeader(numTracks: number, ppq: number): Uint8Array {
         return new Uint8Array([
             0x4D, 0x54, 0x68, 0x64, // "MThd"
             0x00, 0x00, 0x00, 0x06, // Header length
             0x00, 0x01,             // Format 1 (multi-track)
             (numTracks >> 8) & 0xFF, numTracks & 0xFF, // Number of tracks
-            0x00, 0x60              // 96 ticks per quarter note
+            (ppq >> 8) & 0x7F, ppq & 0xFF // ticks per quarter note
         ]);
     }
 
-    private createTrackChunk(measures: Measure[], tempo?: number): number[] {
-        const notes = measures.flatMap(m => m.notes);
-        const eventData: number[] = [];
-        
-        if (tempo) {
-            const microsecondsPerBeat = Math.floor(60000000 / tempo);
-            eventData.push(...this.writeVariableLength(0)); // delta time
-            eventData.push(0xFF, 0x51, 0x03); // set tempo
-            eventData.push(...this.writeTempo(microsecondsPerBeat));
+    // Tempo, time signature and key signature, all at tick 0.
+    private createConductorEvents(tempo: number, options: MidiExportOptions): number[] {
+        const events: number[] = [];
+
+        const microsecondsPerBeat = Math.floor(60000000 / tempo);
+        events.push(0x00, 0xFF, 0x51, 0x03, ...this.writeTempo(microsecondsPerBeat));
+
+        const signature = options.timeSignature?.match(/^\s*(\d+)\s*\/\s*(1|2|4|8|16|32)\s*$/);
+        if (signature) {
+            // Numerator, denominator as a power of two, MIDI clocks per metronome click, 32nd notes per quarter.
+            events.push(0x00, 0xFF, 0x58, 0x04, Number(signature[1]), Math.log2(Number(signature[2])), 24, 8);
         }
+
+        const key = options.key ? nameToKeySignature(options.key) : null;
+        if (key) {
+            events.push(0x00, 0xFF, 0x59, 0x02, key.sharps & 0xFF, key.minor ? 1 : 0);
+        }
+        return events;
+    }
+
+    private createTrackChunk(part: Part, channel: number, conductorEvents: number[], ppq: number, velocity: number): number[] {
+        const notes = part.measures.flatMap(m => m.notes);
+        const eventData: number[] = [
+            0x00, 0xFF, 0x03, ...this.writeText(part.partName), // track name
+            ...conductorEvents,
+            0x00, 0xC0 | channel, programForPart(part.partName), // program change
+        ];
         
-        let accumulatedDeltaTicks = 0;
+        // Chord notes overlap, so on/off events are collected by absolute tick and written in time order.
+        // Lyrics sort before the notes they belong to, and note offs before note ons at the same tick.
+        const events: { tick: number; order: number; bytes: number[] }[] = [];
         
-        notes.forEach(note => {
-            const durationTicks = this.durationToTicks(note.duration);
-            
-            if (note.pitch === 'rest') {
-                accumulatedDeltaTicks += durationTicks;
-                return;
-            }
-            
+        soundingNotes(notes).forEach(note => {
             const midiNumber = pitchToMidiNumber(note.pitch);
             if (midiNumber === null) {
                 console.warn(`Could not find MIDI number for pitch: ${note.pitch}, treating as rest.`);
-                accumulatedDeltaTicks += durationTicks;
                 return;
             }
-            
-            // Note On event
-            eventData.push(...this.writeVariableLength(accumulatedDeltaTicks));
-            eventData.push(0x90, midiNumber, 0x64); // Channel 1, Note On, velocity 100
-            accumulatedDeltaTicks = 0; // Reset delta time for simultaneous notes if any (not handled here)
-
-            // Note Off event
-            eventData.push(...this.writeVariableLength(durationTicks));
-            eventData.push(0x80, midiNumber, 0x00); // Channel 1, Note Off, velocity 0
+            events.push({ tick: this.durationToTicks(note.startBeat, ppq), order: 2, bytes: [0x90 | channel, midiNumber, velocity] });
+            events.push({ tick: this.durationToTicks(note.startBeat + note.beats, ppq), order: 1, bytes: [0x80 | channel, midiNumber, 0x00] });
+        });
+
+        // Only the first verse fits in a track's single lyric stream.
+        let position = 0;
+        notes.forEach(note => {
+            const syllable = note.lyric?.[0];
+            if (syllable && note.pitch !== 'rest') {
+                events.push({ tick: this.durationToTicks(position, ppq), order: 0, bytes: [0xFF, 0x05, ...this.writeText(syllable)] });
+            }
+            position += noteBeats(note);
+        });
+        
+        events.sort((a, b) => a.tick - b.tick || a.order - b.order);
+        
+        let lastEventTick = 0;
+        events.forEach(event => {
+            eventData.push(...this.writeVariableLength(event.tick - lastEventTick));
+            eventData.push(...event.bytes);
+            lastEventTick = event.tick;
         });
         
         // End of track meta-event
@@ -101,16 +165,15 @@ export class MIDIGenerator {
         return [...trackHeader, ...eventData];
     }
 
-    private durationToTicks(duration: Note['duration']): number {
-        const ticksPerQuarter = 96;
-        switch(duration) {
-            case 'whole': return ticksPerQuarter * 4;
-            case 'half': return ticksPerQuarter * 2;
-            case 'quarter': return ticksPerQuarter;
-            case 'eighth': return ticksPerQuarter / 2;
-            case 'sixteenth': return ticksPerQuarter / 4;
-            default: return ticksPerQuarter;
-        }
+    // Beats come from `noteBeats`, so dotted and tuplet lengths round to the nearest tick.
+    private durationToTicks(beats: number, ticksPerQuarter: number): number {
+        return Math.round(beats * ticksPerQuarter);
+    }
+
+    // A length-prefixed UTF-8 string, for track name and lyric meta events.
+    private writeText(text: string): number[] {
+        const bytes = new TextEncoder().encode(text);
+        return [...this.writeVariableLength(bytes.length), ...bytes];
     }
 
     private writeVariableLength(value: number): number[] {
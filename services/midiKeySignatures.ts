@@ -0,0 +1,21 @@
+// Key signature meta events give sharps (positive) or flats (negative), from -7 to 7.
+const MAJOR_BY_SHARPS = ['Cb', 'Gb', 'Db', 'Ab', 'Eb', 'Bb', 'F', 'C', 'G', 'D', 'A', 'E', 'B', 'F#', 'C#'];
+const MINOR_BY_SHARPS = ['Ab', 'Eb', 'Bb', 'F', 'C', 'G', 'D', 'A', 'E', 'B', 'F#', 'C#', 'G#', 'D#', 'A#'];
+
+export interface MidiKeySignature {
+    sharps: number; // negative for flats
+    minor: boolean;
+}
+
+/** The app's key name for a key signature event, e.g. "Eb" or "Cm" (minor keys end in "m"). */
+export const keySignatureToName = ({ sharps, minor }: MidiKeySignature): string => {
+    const index = Math.max(-7, Math.min(7, sharps)) + 7;
+    return minor ? `${MINOR_BY_SHARPS[index]}m` : MAJOR_BY_SHARPS[index];
+};
+
+/** The key signature event for one of the app's key names; null if the name isn't a key. */
+export const nameToKeySignature = (key: string): MidiKeySignature | null => {
+    const minor = key.endsWith('m');
+    const index = (minor ? MINOR_BY_SHARPS : MAJOR_BY_SHARPS).indexOf(minor ? key.slice(0, -1) : key);
+    return index === -1 ? null : { sharps: index - 7, minor };
+};
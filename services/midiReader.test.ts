@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import { MIDIReader } from './midiReader';
+import { soundingNotes } from './noteDurations';
+
+const TICKS_PER_QUARTER = 480;
+
+const variableLength = (value: number): number[] => {
+    const bytes = [value & 0x7F];
+    while ((value >>= 7) > 0) bytes.unshift((value & 0x7F) | 0x80);
+    return bytes;
+};
+
+const uint32 = (value: number) => [(value >>> 24) & 0xFF, (value >>> 16) & 0xFF, (value >>> 8) & 0xFF, value & 0xFF];
+
+const tempoEvent = (bpm: number): number[] => {
+    const microseconds = Math.round(60000000 / bpm);
+    return [0xFF, 0x51, 0x03, (microseconds >> 16) & 0xFF, (microseconds >> 8) & 0xFF, microseconds & 0xFF];
+};
+
+// A format 0 file from [tick, event bytes] pairs, in tick order.
+const midiFile = (events: [number, number[]][]): Uint8Array => {
+    let lastTick = 0;
+    const track = events.flatMap(([tick, bytes]) => {
+        const delta = variableLength(tick - lastTick);
+        lastTick = tick;
+        return [...delta, ...bytes];
+    });
+    track.push(0x00, 0xFF, 0x2F, 0x00);
+    const header = [..."MThd"].map(c => c.charCodeAt(0)).concat(uint32(6), [0, 0, 0, 1, TICKS_PER_QUARTER >> 8, TICKS_PER_QUARTER & 0xFF]);
+    return new Uint8Array([...header, ...[..."MTrk"].map(c => c.charCodeAt(0)), ...uint32(track.length), ...track]);
+};
+
+const on = (midiNumber: number): number[] => [0x90, midiNumber, 90];
+const off = (midiNumber: number): number[] => [0x80, midiNumber, 0];
+
+describe('MIDIReader', () => {
+    it('holds a note through later onsets until its own note off', () => {
+        // C3 is held for two beats while E4 and G4 follow each other above it.
+        const data = midiFile([
+            [0, on(48)], [0, on(64)],
+            [480, off(64)], [480, on(67)],
+            [960, off(67)], [960, off(48)],
+        ]);
+        const { music } = new MIDIReader().readMIDI(data);
+        const notes = music.parts[0].measures[0].notes;
+
+        expect(notes.slice(0, 2)).toEqual([
+            { pitch: 'E4', chord: ['C3'], duration: 'quarter', tie: true },
+            { pitch: 'G4', chord: ['C3'], duration: 'quarter' },
+        ]);
+        expect(soundingNotes(notes).filter(note => note.pitch !== 'rest')).toEqual([
+            { pitch: 'E4', startBeat: 0, beats: 1 },
+            { pitch: 'C3', startBeat: 0, beats: 2 },
+            { pitch: 'G4', startBeat: 1, beats: 1 },
+        ]);
+    });
+
+    it('strikes a note again over a held note, tying only the held one', () => {
+        // C3 is held for two beats while E4 is struck twice above it.
+        const data = midiFile([
+            [0, on(48)], [0, on(64)],
+            [480, off(64)], [480, on(64)],
+            [960, off(64)], [960, off(48)],
+        ]);
+        const notes = new MIDIReader().readMIDI(data).music.parts[0].measures[0].notes;
+
+        expect(notes.slice(0, 2)).toEqual([
+            { pitch: 'E4', chord: ['C3'], duration: 'quarter', tie: true, tiedPitches: ['C3'] },
+            { pitch: 'E4', chord: ['C3'], duration: 'quarter' },
+        ]);
+        expect(soundingNotes(notes).filter(note => note.pitch !== 'rest')).toEqual([
+            { pitch: 'E4', startBeat: 0, beats: 1 },
+            { pitch: 'C3', startBeat: 0, beats: 2 },
+            { pitch: 'E4', startBeat: 1, beats: 1 },
+        ]);
+    });
+
+    it('warns that tempo changes are played at the first tempo', () => {
+        const data = midiFile([[0, tempoEvent(120)], [0, on(60)], [480, off(60)], [480, tempoEvent(60)], [480, on(62)], [960, off(62)]]);
+        const { music, warnings } = new MIDIReader().readMIDI(data);
+
+        expect(music.tempo).toBe(120);
+        expect(warnings).toEqual(['The file changes tempo 1 time(s); the whole score plays at its first tempo, 120 BPM.']);
+    });
+
+    it('warns that time signature changes are written in the first one', () => {
+        const timeSignature = (beats: number, unitPower: number): number[] => [0xFF, 0x58, 0x04, beats, unitPower, 24, 8];
+        const data = midiFile([[0, timeSignature(3, 2)], [0, on(60)], [1440, off(60)], [1440, timeSignature(4, 2)], [1440, on(62)], [3360, off(62)]]);
+        const { music, warnings } = new MIDIReader().readMIDI(data);
+
+        expect(music.timeSignature).toBe('3/4');
+        expect(warnings).toEqual(['The file changes time signature 1 time(s); every measure is in its first, 3/4.']);
+    });
+
+    it('leaves out the drum channel', () => {
+        const drum = (event: number[]): number[] => [event[0] | 9, ...event.slice(1)];
+        const data = midiFile([[0, on(60)], [0, drum(on(36))], [480, off(60)], [480, drum(off(36))]]);
+        const { music, warnings } = new MIDIReader().readMIDI(data);
+
+        expect(music.parts).toHaveLength(1);
+        expect(music.parts[0].measures[0].notes[0]).toEqual({ pitch: 'C4', duration: 'quarter' });
+        expect(warnings).toEqual(['The 1 note(s) on the drum channel (10) were left out, as they are drum sounds rather than pitches.']);
+        expect(() => new MIDIReader().readMIDI(midiFile([[0, drum(on(36))], [480, drum(off(36))]]))).toThrow('only has drum notes');
+    });
+
+    it('does not warn about a tempo that is only repeated', () => {
+        const data = midiFile([[0, tempoEvent(90)], [0, on(60)], [480, tempoEvent(90)], [480, off(60)]]);
+
+        expect(new MIDIReader().readMIDI(data).warnings).toEqual([]);
+    });
+});
@@ -0,0 +1,371 @@
+import { Measure, Note, ParsedMusic, Part } from '../types';
+import { beatsToNoteValues } from './solfaConverter';
+import { notePitches } from './noteDurations';
+import { keySignatureToName } from './midiKeySignatures';
+
+const SHARP_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+const FLAT_NAMES = ['C', 'Db', 'D', 'Eb', 'E', 'F', 'Gb', 'G', 'Ab', 'A', 'Bb', 'B'];
+
+const EPSILON = 1e-6;
+
+// Channel 10 in General MIDI, where note numbers pick percussion sounds rather than pitches.
+const DRUM_CHANNEL = 9;
+
+const utf8 = new TextDecoder('utf-8', { fatal: true });
+const latin1 = new TextDecoder('latin1');
+
+// Text events have no declared encoding: newer files use UTF-8, older ones Latin-1.
+const decodeText = (bytes: Uint8Array): string => {
+    try {
+        return utf8.decode(bytes);
+    } catch {
+        return latin1.decode(bytes);
+    }
+};
+
+export interface MidiReadOptions {
+    grid?: number; // shortest length notes are snapped to, in beats; 0.25 (a sixteenth) by default
+}
+
+export interface MidiReadResult {
+    music: ParsedMusic;
+    key?: string; // from the first key signature event, e.g. "Eb" or "Cm"
+    warnings: string[]; // what of the file the score can't hold, such as tempo changes
+}
+
+/** A played note, timed in ticks. */
+export interface MidiNoteSpan {
+    startTick: number;
+    endTick: number;
+    midiNumber: number;
+}
+
+interface MidiNote extends MidiNoteSpan {
+    channel: number;
+}
+
+interface MidiTrack {
+    name?: string;
+    notes: MidiNote[];
+    lyrics: { tick: number; text: string }[];
+}
+
+interface MidiMeta {
+    tempo?: number;
+    tempoChanges: number; // later tempo events that differ from the first
+    timeSignature?: string;
+    timeSignatureChanges: number; // likewise for time signatures
+    drumNotes: number; // notes on the General MIDI drum channel, which are left out
+    key?: string;
+    flats: boolean;
+}
+
+// A chord (or rest, with no pitches) on the quantised timeline of a part.
+interface TimelineEvent {
+    startBeat: number;
+    beats: number;
+    midiNumbers: number[];
+    heldMidiNumbers: number[]; // pitches already sounding in the event before, which is tied on for them only
+    lyric?: string;
+}
+
+/**
+ * Reads Standard MIDI Files (formats 0 and 1) into the app's score model. Each track with notes
+ * becomes a part (each channel, for format 0), and notes are snapped to a grid and split into
+ * measures of the file's first time signature, tied across barlines where they cross them.
+ * Drums (channel 10) are left out, since their note numbers are sounds rather than pitches.
+ */
+export class MIDIReader {
+    readMIDI(data: Uint8Array, options: MidiReadOptions = {}): MidiReadResult {
+        const grid = options.grid ?? 0.25;
+        const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+
+        if (this.readChunkId(data, 0) !== 'MThd') {
+            throw new Error('This is not a MIDI file (no MThd header).');
+        }
+        const headerLength = view.getUint32(4);
+        const format = view.getUint16(8);
+        const trackCount = view.getUint16(10);
+        const division = view.getUint16(12);
+        if (format > 1) {
+            throw new Error(`MIDI format ${format} is not supported; save the file as format 0 or 1.`);
+        }
+        if (division & 0x8000) {
+            throw new Error('MIDI files timed in SMPTE frames are not supported; save the file with beat-based timing.');
+        }
+        const ticksPerQuarter = division;
+
+        const meta: MidiMeta = { tempoChanges: 0, timeSignatureChanges: 0, drumNotes: 0, flats: false };
+        const tracks: MidiTrack[] = [];
+        let offset = 8 + headerLength;
+        while (offset + 8 <= data.length && tracks.length < trackCount) {
+            const chunkId = this.readChunkId(data, offset);
+            const chunkLength = view.getUint32(offset + 4);
+            const chunkStart = offset + 8;
+            if (chunkId === 'MTrk') {
+                tracks.push(this.readTrack(data, chunkStart, Math.min(chunkStart + chunkLength, data.length), meta));
+            }
+            offset = chunkStart + chunkLength; // unknown chunks are skipped
+        }
+
+        // A format 0 file keeps every part in one track, so its channels are the parts.
+        const sources = format === 0 ? this.splitByChannel(tracks[0]) : tracks;
+        const timeSignature = meta.timeSignature ?? '4/4';
+        const beatsPerMeasure = this.beatsPerMeasure(timeSignature);
+
+        const parts: Part[] = sources
+            .filter(track => track.notes.length > 0)
+            .map((track, index) => ({
+                partName: track.name?.trim() || `Track ${index + 1}`,
+                measures: this.toMeasures(this.toTimeline(track, ticksPerQuarter, grid), beatsPerMeasure, meta.flats),
+            }));
+        if (parts.length === 0) {
+            throw new Error(meta.drumNotes > 0 ? 'The MIDI file only has drum notes, which have no pitches to score.' : 'The MIDI file has no notes.');
+        }
+
+        // Parts that end early are padded with rests so every part has the same number of measures.
+        const measureCount = Math.max(...parts.map(part => part.measures.length));
+        for (const part of parts) {
+            while (part.measures.length < measureCount) {
+                part.measures.push({ notes: this.restNotes(beatsPerMeasure) });
+            }
+        }
+
+        const warnings: string[] = [];
+        if (meta.tempoChanges > 0) {
+            warnings.push(`The file changes tempo ${meta.tempoChanges} time(s); the whole score plays at its first tempo, ${meta.tempo} BPM.`);
+        }
+        if (meta.timeSignatureChanges > 0) {
+            warnings.push(`The file changes time signature ${meta.timeSignatureChanges} time(s); every measure is in its first, ${timeSignature}.`);
+        }
+        if (meta.drumNotes > 0) {
+            warnings.push(`The ${meta.drumNotes} note(s) on the drum channel (10) were left out, as they are drum sounds rather than pitches.`);
+        }
+        return {
+            music: { tempo: meta.tempo ?? 120, timeSignature, parts },
+            key: meta.key,
+            warnings,
+        };
+    }
+
+    /** Quantises notes played live (e.g. from a MIDI keyboard) into measures, as a file's tracks are. */
+    notesToMeasures(notes: MidiNoteSpan[], ticksPerQuarter: number, timeSignature: string, options: MidiReadOptions = {}): Measure[] {
+        const track: MidiTrack = { notes: notes.map(note => ({ ...note, channel: 0 })), lyrics: [] };
+        const timeline = this.toTimeline(track, ticksPerQuarter, options.grid ?? 0.25);
+        return this.toMeasures(timeline, this.beatsPerMeasure(timeSignature), false);
+    }
+
+    private readChunkId(data: Uint8Array, offset: number): string {
+        return String.fromCharCode(...data.subarray(offset, offset + 4));
+    }
+
+    private readVariableLength(data: Uint8Array, offset: number): { value: number; next: number } {
+        let value = 0;
+        let next = offset;
+        for (let i = 0; i < 4 && next < data.length; i++) {
+            const byte = data[next++];
+            value = (value << 7) | (byte & 0x7F);
+            if (!(byte & 0x80)) break;
+        }
+        return { value, next };
+    }
+
+    // Only the first tempo, time signature and key signature are kept; changes and drum notes are counted for warnings.
+    private readTrack(data: Uint8Array, start: number, end: number, meta: MidiMeta): MidiTrack {
+        const track: MidiTrack = { notes: [], lyrics: [] };
+        const sounding = new Map<number, MidiNote[]>(); // by channel * 128 + note number
+        let offset = start;
+        let tick = 0;
+        let runningStatus = 0;
+
+        const noteOff = (channel: number, midiNumber: number) => {
+            const held = sounding.get(channel * 128 + midiNumber);
+            const note = held?.shift();
+            if (note) {
+                note.endTick = tick;
+                track.notes.push(note);
+            }
+        };
+
+        while (offset < end) {
+            const delta = this.readVariableLength(data, offset);
+            tick += delta.value;
+            offset = delta.next;
+
+            let status = data[offset];
+            if (status & 0x80) {
+                offset++;
+            } else {
+                status = runningStatus; // running status: the data bytes follow straight on
+            }
+
+            if (status === 0xFF) {
+                const type = data[offset++];
+                const length = this.readVariableLength(data, offset);
+                const bytes = data.subarray(length.next, length.next + length.value);
+                offset = length.next + length.value;
+
+                if (type === 0x2F) break;
+                if (type === 0x03 && track.name === undefined) track.name = decodeText(bytes);
+                if (type === 0x05) track.lyrics.push({ tick, text: decodeText(bytes) });
+                if (type === 0x51 && bytes.length === 3) {
+                    const tempo = Math.round(60000000 / ((bytes[0] << 16) | (bytes[1] << 8) | bytes[2]));
+                    if (meta.tempo === undefined) meta.tempo = tempo;
+                    else if (tempo !== meta.tempo) meta.tempoChanges++;
+                }
+                if (type === 0x58 && bytes.length >= 2) {
+                    const timeSignature = `${bytes[0]}/${Math.pow(2, bytes[1])}`;
+                    if (meta.timeSignature === undefined) meta.timeSignature = timeSignature;
+                    else if (timeSignature !== meta.timeSignature) meta.timeSignatureChanges++;
+                }
+                if (type === 0x59 && meta.key === undefined && bytes.length === 2) {
+                    const sharps = (bytes[0] << 24) >> 24; // signed byte
+                    meta.key = keySignatureToName({ sharps, minor: bytes[1] === 1 });
+                    meta.flats = sharps < 0;
+                }
+                continue;
+            }
+            if (status === 0xF0 || status === 0xF7) {
+                const length = this.readVariableLength(data, offset);
+                offset = length.next + length.value;
+                continue;
+            }
+
+            runningStatus = status;
+            const kind = status & 0xF0;
+            const channel = status & 0x0F;
+            if (kind === 0x90 || kind === 0x80) {
+                const midiNumber = data[offset];
+                const velocity = data[offset + 1];
+                offset += 2;
+                if (kind === 0x90 && velocity > 0 && channel === DRUM_CHANNEL) {
+                    meta.drumNotes++;
+                } else if (kind === 0x90 && velocity > 0) {
+                    const key = channel * 128 + midiNumber;
+                    const held = sounding.get(key) ?? [];
+                    held.push({ startTick: tick, endTick: tick, midiNumber, channel });
+                    sounding.set(key, held);
+                } else {
+                    noteOff(channel, midiNumber); // note on with velocity 0 is a note off
+                }
+            } else if (kind === 0xC0 || kind === 0xD0) {
+                offset += 1;
+            } else {
+                offset += 2; // aftertouch, controllers and pitch bend
+            }
+        }
+
+        // Notes never switched off end with the track.
+        sounding.forEach(held => held.forEach(note => {
+            note.endTick = tick;
+            track.notes.push(note);
+        }));
+        track.notes.sort((a, b) => a.startTick - b.startTick);
+        return track;
+    }
+
+    private splitByChannel(track: MidiTrack | undefined): MidiTrack[] {
+        if (!track) return [];
+        const channels = Array.from(new Set(track.notes.map(note => note.channel))).sort((a, b) => a - b);
+        if (channels.length <= 1) return [track];
+        return channels.map(channel => ({
+            name: `${track.name?.trim() || 'Channel'} ${channel + 1}`,
+            notes: track.notes.filter(note => note.channel === channel),
+            lyrics: channel === channels[0] ? track.lyrics : [],
+        }));
+    }
+
+    private beatsPerMeasure(timeSignature: string): number {
+        const [beats, unit] = timeSignature.split('/').map(Number);
+        return beats * 4 / unit || 4;
+    }
+
+    /**
+     * Snaps notes to the grid and turns them into a sequence of chords and rests. Every onset and
+     * release starts a new chord of the notes sounding then, so a note held while others move on
+     * is carried into the chords that follow, tied, and ends only with its own note off.
+     */
+    private toTimeline(track: MidiTrack, ticksPerQuarter: number, grid: number): TimelineEvent[] {
+        const snap = (tick: number) => Math.round(tick / ticksPerQuarter / grid) * grid;
+        const spans = track.notes.map(note => {
+            const start = snap(note.startTick);
+            return { start, end: Math.max(snap(note.endTick), start + grid), midiNumber: note.midiNumber };
+        });
+        const lyricsByBeat = new Map(track.lyrics.map(lyric => [snap(lyric.tick), lyric.text.trim()]));
+
+        const boundaries = Array.from(new Set(spans.flatMap(span => [span.start, span.end]))).sort((a, b) => a - b);
+        const timeline: TimelineEvent[] = [];
+        let position = 0;
+        boundaries.slice(0, -1).forEach((start, index) => {
+            const sounding = spans.filter(span => span.start < start + EPSILON && span.end > start + EPSILON);
+            if (sounding.length === 0) return; // a gap, written as a rest before the next chord
+            if (start > position + EPSILON) {
+                timeline.push({ startBeat: position, beats: start - position, midiNumbers: [], heldMidiNumbers: [] });
+            }
+            const end = boundaries[index + 1];
+            const midiNumbers = Array.from(new Set(sounding.map(span => span.midiNumber)));
+            timeline.push({
+                startBeat: start, beats: end - start,
+                midiNumbers: midiNumbers.sort((a, b) => b - a), // the top pitch leads the chord
+                heldMidiNumbers: sounding.filter(span => span.start < start - EPSILON).map(span => span.midiNumber),
+                lyric: lyricsByBeat.get(start) || undefined,
+            });
+            position = end;
+        });
+        return timeline;
+    }
+
+    private toMeasures(timeline: TimelineEvent[], beatsPerMeasure: number, flats: boolean): Measure[] {
+        const totalBeats = timeline.reduce((end, event) => Math.max(end, event.startBeat + event.beats), 0);
+        const measureCount = Math.max(1, Math.ceil(totalBeats / beatsPerMeasure - EPSILON));
+        const measures: Measure[] = Array.from({ length: measureCount }, () => ({ notes: [] }));
+        const names = flats ? FLAT_NAMES : SHARP_NAMES;
+        const pitchName = (midiNumber: number) => `${names[midiNumber % 12]}${Math.floor(midiNumber / 12) - 1}`;
+
+        let lastNote: Note | undefined;
+        for (const event of timeline) {
+            if (lastNote && event.heldMidiNumbers.length > 0) {
+                lastNote.tie = true;
+                // A pitch struck again while another is held is not tied, so only the held ones are named.
+                const restruck = event.midiNumbers.filter(midiNumber => !event.heldMidiNumbers.includes(midiNumber));
+                if (restruck.some(midiNumber => notePitches(lastNote!).includes(pitchName(midiNumber)))) {
+                    lastNote.tiedPitches = event.heldMidiNumbers.map(pitchName);
+                }
+            }
+            let position = event.startBeat;
+            let remaining = event.beats;
+            let isFirstPiece = true;
+            while (remaining > EPSILON) {
+                const measureIndex = Math.floor(position / beatsPerMeasure + EPSILON);
+                const measureEnd = (measureIndex + 1) * beatsPerMeasure;
+                const pieceBeats = Math.min(remaining, measureEnd - position);
+
+                // A note that crosses a barline (or fills a length no single value can) is tied on.
+                for (const value of beatsToNoteValues(pieceBeats)) {
+                    if (lastNote && !isFirstPiece && event.midiNumbers.length > 0) lastNote.tie = true;
+                    const [pitch, ...chord] = event.midiNumbers.map(pitchName);
+                    const note: Note = { pitch: pitch ?? 'rest', ...value };
+                    if (chord.length > 0) note.chord = chord;
+                    if (isFirstPiece && event.lyric) note.lyric = [event.lyric];
+                    measures[measureIndex].notes.push(note);
+                    lastNote = note;
+                    isFirstPiece = false;
+                }
+                position += pieceBeats;
+                remaining -= pieceBeats;
+            }
+        }
+
+        // The last measure is filled out with rests.
+        const last = measures[measures.length - 1];
+        const lastBeats = totalBeats - (measureCount - 1) * beatsPerMeasure;
+        if (lastBeats < beatsPerMeasure - EPSILON) {
+            last.notes.push(...this.restNotes(beatsPerMeasure - lastBeats));
+        }
+        return measures;
+    }
+
+    private restNotes(beats: number): Note[] {
+        return beatsToNoteValues(beats).map(value => ({ pitch: 'rest', ...value }));
+    }
+}
@@ -0,0 +1,49 @@
+declare const Tone: any;
+
+export interface ChannelStrip {
+    volume: number; // dB, 0 leaves the part at full level
+    pan: number; // -1 (left) to 1 (right)
+    muted: boolean;
+    soloed: boolean;
+}
+
+/** Mixer settings by part name. Parts without an entry play at the default strip. */
+export type MixSettings = Record<string, ChannelStrip>;
+
+export const DEFAULT_STRIP: ChannelStrip = { volume: 0, pan: 0, muted: false, soloed: false };
+
+export const MIN_VOLUME_DB = -40;
+export const MAX_VOLUME_DB = 6;
+
+export const stripFor = (mix: MixSettings, partName: string): ChannelStrip => mix[partName] ?? DEFAULT_STRIP;
+
+/** Whether a part is heard: while any part is soloed only soloed parts are, otherwise every unmuted part. */
+export const isAudible = (mix: MixSettings, partName: string, partNames: string[]): boolean => {
+    const anySoloed = partNames.some(name => stripFor(mix, name).soloed);
+    const strip = stripFor(mix, partName);
+    return anySoloed ? strip.soloed : !strip.muted;
+};
+
+/** A part's synth, routed through its own channel so its level and pan can change while it plays. */
+export interface PartVoice {
+    synth: any;
+    channel: any;
+}
+
+// Tone objects are created in the current context, so this serves live playback and Tone.Offline alike.
+export const createPartVoice = (): PartVoice => {
+    const channel = new Tone.Channel().toDestination();
+    const synth = new Tone.PolySynth(Tone.Synth).connect(channel);
+    return { synth, channel };
+};
+
+export const applyStrip = (voice: PartVoice, strip: ChannelStrip, audible: boolean) => {
+    voice.channel.volume.value = strip.volume;
+    voice.channel.pan.value = strip.pan;
+    voice.channel.mute = !audible;
+};
+
+export const disposePartVoice = (voice: PartVoice) => {
+    voice.synth.dispose();
+    voice.channel.dispose();
+};
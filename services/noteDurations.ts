@@ -0,0 +1,78 @@
+import { Measure, Note } from '../types';
+
+// Beat values of the plain note durations, with the beat as a quarter note.
+export const DURATION_BEATS: Record<Note['duration'], number> = {
+    'whole': 4, 'half': 2, 'quarter': 1, 'eighth': 0.5, 'sixteenth': 0.25
+};
+
+/** Where a written note (or rest) of a run of measures starts, in beats from the first measure. */
+export interface NoteStart {
+    measureIndex: number;
+    noteIndex: number;
+    startBeat: number;
+}
+
+/** A note that is actually struck, with its position and length in beats from the start of the part. */
+export interface SoundingNote {
+    pitch: string;
+    startBeat: number;
+    beats: number;
+}
+
+/** The length of a note in beats, counting its dots and the tuplet it belongs to. */
+export const noteBeats = (note: Note): number => {
+    // Each dot adds half of the value before it: 1.5x for one dot, 1.75x for two.
+    const dotted = (DURATION_BEATS[note.duration] ?? 1) * (2 - Math.pow(0.5, note.dots || 0));
+    return note.tuplet ? dotted * note.tuplet.normal / note.tuplet.actual : dotted;
+};
+
+/** Every pitch a note strikes: none for a rest, several for a chord. */
+export const notePitches = (note: Note): string[] => {
+    return note.pitch === 'rest' ? [] : [note.pitch, ...(note.chord || [])];
+};
+
+export const totalBeats = (notes: Note[]): number => notes.reduce((total, note) => total + noteBeats(note), 0);
+
+/**
+ * The notes to strike for a run of notes, one per pitch of each chord: rests are left out, and a
+ * pitch tied into the next note that has it is played as a single longer note, including across barlines.
+ * A chord with `tiedPitches` holds only those; its other pitches are struck again.
+ */
+export const soundingNotes = (notes: Note[]): SoundingNote[] => {
+    const sounding: SoundingNote[] = [];
+    let position = 0;
+    let tiedFrom: Record<string, SoundingNote> = {};
+
+    for (const note of notes) {
+        const beats = noteBeats(note);
+        const tiedOn: Record<string, SoundingNote> = {};
+        for (const pitch of notePitches(note)) {
+            let current = tiedFrom[pitch];
+            if (current) {
+                current.beats += beats;
+            } else {
+                current = { pitch, startBeat: position, beats };
+                sounding.push(current);
+            }
+            if (note.tie && (!note.tiedPitches || note.tiedPitches.includes(pitch))) {
+                tiedOn[pitch] = current;
+            }
+        }
+        tiedFrom = tiedOn;
+        position += beats;
+    }
+    return sounding;
+};
+
+/** Every written note and rest of a run of measures with the beat it starts on, e.g. to follow playback. */
+export const noteStarts = (measures: Measure[]): NoteStart[] => {
+    const starts: NoteStart[] = [];
+    let position = 0;
+    measures.forEach((measure, measureIndex) => {
+        measure.notes.forEach((note, noteIndex) => {
+            starts.push({ measureIndex, noteIndex, startBeat: position });
+            position += noteBeats(note);
+        });
+    });
+    return starts;
+};
@@ -0,0 +1,42 @@
+// How many closing brackets back from the end are tried before giving up on a fragment.
+const MAX_ATTEMPTS = 20;
+
+/**
+ * Parses the complete prefix of a JSON document that is still arriving, e.g. from a streamed
+ * response. The fragment is cut after its last closed object or array and the brackets still
+ * open there are closed, so `{"a":[{"b":1},{"b"` reads as `{"a":[{"b":1}]}`.
+ * Returns null when no prefix parses.
+ */
+export const parsePartialJson = (text: string): unknown | null => {
+    const stack: string[] = [];
+    const cutPoints: { index: number; closers: string }[] = [];
+    let inString = false;
+    let escaped = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (inString) {
+            if (escaped) escaped = false;
+            else if (char === '\\') escaped = true;
+            else if (char === '"') inString = false;
+            continue;
+        }
+        if (char === '"') inString = true;
+        else if (char === '{') stack.push('}');
+        else if (char === '[') stack.push(']');
+        else if (char === '}' || char === ']') {
+            stack.pop();
+            cutPoints.push({ index: i + 1, closers: stack.slice().reverse().join('') });
+        }
+    }
+
+    for (let attempt = 0; attempt < MAX_ATTEMPTS && cutPoints.length > 0; attempt++) {
+        const { index, closers } = cutPoints.pop()!;
+        try {
+            return JSON.parse(text.slice(0, index) + closers);
+        } catch {
+            // The cut left a dangling key or separator; try the previous closing bracket.
+        }
+    }
+    return null;
+};
@@ -0,0 +1,22 @@
+import { ParsedMusic } from '../types';
+
+// Measures the transcriber rated below this are flagged for review.
+export const LOW_CONFIDENCE = 0.7;
+
+/** A measure the transcriber wasn't sure of, located by part and 0-based measure. */
+export interface UncertainMeasure {
+    partName: string;
+    measureIndex: number;
+    confidence: number;
+    ambiguity?: string;
+}
+
+/** Every measure rated below `LOW_CONFIDENCE`, in score order. */
+export const findUncertainMeasures = (music: ParsedMusic): UncertainMeasure[] => {
+    const uncertain = music.parts.flatMap(part => part.measures.flatMap((measure, measureIndex) =>
+        typeof measure.confidence === 'number' && measure.confidence < LOW_CONFIDENCE
+            ? [{ partName: part.partName, measureIndex, confidence: measure.confidence, ambiguity: measure.ambiguity }]
+            : []
+    ));
+    return uncertain.sort((a, b) => a.measureIndex - b.measureIndex);
+};
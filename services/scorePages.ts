@@ -0,0 +1,65 @@
+import { Part, Section } from '../types';
+import { MeasureRepair } from './scoreRepair';
+import { TranscriptionResult } from './transcriptionProvider';
+
+/**
+ * Counts the pages of a PDF from its page tree: the largest `/Count` of a `/Type /Pages` node, or
+ * failing that the number of `/Type /Page` objects. Returns 0 when neither can be read, as with
+ * page trees kept in compressed object streams.
+ */
+export const countPdfPages = (bytes: ArrayBuffer): number => {
+    const text = new TextDecoder('latin1').decode(bytes);
+    const counts = Array.from(text.matchAll(/\/Type\s*\/Pages\b[^>]*?\/Count\s+(\d+)|\/Count\s+(\d+)[^>]*?\/Type\s*\/Pages\b/g),
+        match => Number(match[1] ?? match[2]));
+    if (counts.length > 0) return Math.max(...counts);
+    return (text.match(/\/Type\s*\/Page\b/g) || []).length;
+};
+
+const sameName = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+/**
+ * Joins the scores read from consecutive pages into one. Measures, sections and repairs are
+ * numbered on from the previous pages, and parts are matched by name. A part missing from a page
+ * gets empty measures there, so the validator flags the gap instead of the parts drifting apart.
+ */
+export const joinPages = (pages: TranscriptionResult[]): TranscriptionResult => {
+    if (pages.length === 1) return pages[0];
+
+    const parts: Part[] = [];
+    const sections: Section[] = [];
+    const repairs: MeasureRepair[] = [];
+    let offset = 0;
+
+    pages.forEach((page, pageIndex) => {
+        const pageLength = Math.max(0, ...page.music.parts.map(part => part.measures.length));
+
+        for (const pagePart of page.music.parts) {
+            let part = parts.find(existing => sameName(existing.partName, pagePart.partName));
+            if (!part) {
+                part = { partName: pagePart.partName, measures: [] };
+                parts.push(part);
+            }
+            while (part.measures.length < offset) part.measures.push({ notes: [] });
+            part.measures.push(...pagePart.measures);
+        }
+        for (const part of parts) {
+            while (part.measures.length < offset + pageLength) part.measures.push({ notes: [] });
+        }
+
+        sections.push(...(page.music.sections ?? []).map(section => ({
+            ...section, startMeasure: section.startMeasure + offset, endMeasure: section.endMeasure + offset
+        })));
+        repairs.push(...page.repairs.map(repair => ({
+            ...repair,
+            measureIndex: repair.measureIndex === undefined ? undefined : repair.measureIndex + offset,
+            problem: `Page ${pageIndex + 1}: ${repair.problem}`
+        })));
+        offset += pageLength;
+    });
+
+    const { tempo, timeSignature } = pages[0].music;
+    return {
+        music: sections.length > 0 ? { tempo, timeSignature, parts, sections } : { tempo, timeSignature, parts },
+        repairs
+    };
+};
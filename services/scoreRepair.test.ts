@@ -0,0 +1,96 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { GoogleGenAI } from '@google/genai';
+import { Measure, ParsedMusic } from '../types';
+import { validateScore } from './scoreValidator';
+import { buildRepairPrompt, countErrors, diffRepairs } from './scoreRepair';
+import { parseSheetMusic } from './geminiService';
+
+const soprano = (...measures: Measure[]): ParsedMusic => ({ tempo: 100, timeSignature: '4/4', parts: [{ partName: 'Soprano', measures }] });
+
+const WHOLE: Measure = { notes: [{ pitch: 'C4', duration: 'whole' }] };
+const SHORT: Measure = { notes: [{ pitch: 'C4', duration: 'half' }] };
+const FIXED: Measure = { notes: [{ pitch: 'C4', duration: 'half' }, { pitch: 'D4', duration: 'half' }] };
+
+// A model that streams the given answers in turn, noting what the conversation held at each request.
+const createFakeModel = (answers: ParsedMusic[]) => {
+    const requests: string[][] = [];
+    const generateContentStream = vi.fn(async ({ contents }: { contents: { parts: { text?: string }[] }[] }) => {
+        requests.push(contents.map(content => content.parts.map(part => part.text ?? '').join('\n')));
+        const text = JSON.stringify(answers[requests.length - 1]);
+        return (async function* () {
+            yield { text: text.slice(0, 20) };
+            yield { text: text.slice(20) };
+        })();
+    });
+    return { ai: { models: { generateContentStream } } as unknown as GoogleGenAI, requests };
+};
+
+describe('repair prompts and diffs', () => {
+    const music = soprano(SHORT, SHORT, WHOLE);
+    const issues = validateScore(music);
+
+    it('sends back only the errors, not the warnings', () => {
+        const prompt = buildRepairPrompt(music, issues);
+
+        expect(countErrors(issues)).toBe(1);
+        expect(prompt).toContain('- Soprano, measure 2: 2 beats instead of 4.');
+        expect(prompt).not.toContain('measure 1:');
+        expect(prompt).toContain('The time signature is 4/4');
+    });
+
+    it('records the flagged measures a round changed, and whether they still have errors', () => {
+        const repaired = soprano(SHORT, FIXED, WHOLE);
+        const stillShort = soprano(SHORT, { notes: [{ pitch: 'E4', duration: 'quarter', dots: 1 }] }, WHOLE);
+
+        expect(diffRepairs(music, repaired, issues, validateScore(repaired), 1)).toEqual([{
+            round: 1, partName: 'Soprano', measureIndex: 1, problem: 'Soprano, measure 2: 2 beats instead of 4.',
+            before: 'C4:half', after: 'C4:half D4:half', resolved: true,
+        }]);
+        expect(diffRepairs(music, stillShort, issues, validateScore(stillShort), 2)).toEqual([
+            expect.objectContaining({ round: 2, after: 'E4:quarter.', resolved: false }),
+        ]);
+        expect(diffRepairs(music, music, issues, issues, 1)).toEqual([]);
+    });
+});
+
+describe('repair rounds', () => {
+    beforeEach(() => {
+        vi.stubGlobal('window', globalThis); // for the request timeout
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+        vi.restoreAllMocks();
+    });
+
+    it('sends the errors back and keeps a round that fixes them', async () => {
+        const { ai, requests } = createFakeModel([soprano(WHOLE, SHORT, WHOLE), soprano(WHOLE, FIXED, WHOLE)]);
+        const { music, repairs } = await parseSheetMusic(ai, 'C4 whole | C4 half | C4 whole');
+
+        expect(requests).toHaveLength(2);
+        expect(requests[1]).toHaveLength(3); // the request, the first answer and the errors in it
+        expect(requests[1][2]).toContain('Soprano, measure 2: 2 beats instead of 4.');
+        expect(music.parts[0].measures[1]).toEqual(FIXED);
+        expect(repairs).toEqual([expect.objectContaining({ round: 1, measureIndex: 1, resolved: true })]);
+    });
+
+    it('keeps the earlier answer when a round doesn\'t reduce the errors', async () => {
+        const { ai, requests } = createFakeModel([soprano(WHOLE, SHORT, WHOLE), soprano(WHOLE, SHORT, SHORT, WHOLE)]);
+        const { music, repairs } = await parseSheetMusic(ai, 'C4 whole | C4 half | C4 whole');
+
+        expect(requests).toHaveLength(2);
+        expect(music.parts[0].measures).toEqual([WHOLE, SHORT, WHOLE]);
+        expect(repairs).toEqual([]);
+    });
+
+    it('stops after the last round even if errors remain', async () => {
+        const answers = [soprano(WHOLE, SHORT, SHORT, SHORT, WHOLE), soprano(WHOLE, FIXED, SHORT, SHORT, WHOLE), soprano(WHOLE, FIXED, FIXED, SHORT, WHOLE)];
+        const { ai, requests } = createFakeModel(answers);
+        const { music, repairs } = await parseSheetMusic(ai, 'five measures');
+
+        expect(requests).toHaveLength(3);
+        expect(countErrors(validateScore(music))).toBe(1);
+        expect(repairs.map(repair => `${repair.round}:${repair.measureIndex}`)).toEqual(['1:1', '2:2']);
+    });
+});
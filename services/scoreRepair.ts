@@ -0,0 +1,72 @@
+import { ParsedMusic, Measure, Note } from '../types';
+import { ScoreIssue } from './scoreValidator';
+
+/** What one repair round changed in a measure the validator had flagged. */
+export interface MeasureRepair {
+    round: number; // 1-based
+    partName: string;
+    measureIndex?: number; // absent for part-level problems such as a missing measure
+    problem: string; // the validator message that was sent back to the model
+    before: string;
+    after: string;
+    resolved: boolean; // false if the measure still has an error after the round
+}
+
+export const countErrors = (issues: ScoreIssue[]): number => issues.filter(issue => issue.severity === 'error').length;
+
+const formatNote = (note: Note): string => {
+    const pitch = note.chord?.length ? `[${[note.pitch, ...note.chord].join(' ')}]` : note.pitch;
+    const dots = '.'.repeat(note.dots || 0);
+    const tuplet = note.tuplet ? `/${note.tuplet.actual}:${note.tuplet.normal}` : '';
+    return `${pitch}:${note.duration}${dots}${tuplet}${note.tie ? '~' : ''}`;
+};
+
+const formatMeasure = (measure: Measure | undefined): string => {
+    return measure ? measure.notes.map(formatNote).join(' ') || '(empty)' : '(missing)';
+};
+
+/**
+ * The follow-up message for a repair round: the validator's errors, one per line, and what a
+ * corrected answer must keep unchanged.
+ */
+export const buildRepairPrompt = (music: ParsedMusic, issues: ScoreIssue[]): string => {
+    const errors = issues.filter(issue => issue.severity === 'error').map(issue => `- ${issue.message}`);
+    return `
+    Your JSON does not pass validation. These problems were found:
+    ${errors.join('\n    ')}
+
+    Measures are numbered from 1. The time signature is ${music.timeSignature}; every measure's notes and rests must fill it exactly,
+    counting dots and tuplets. Pitches must be scientific pitch notation such as "C4" or "F#5", or "rest".
+    Re-read the original notation for the listed measures and return the complete corrected JSON for the whole piece.
+    Keep every measure that is not listed exactly as it was.
+  `;
+};
+
+/** Compares the flagged measures before and after a round and records the ones the model changed. */
+export const diffRepairs = (before: ParsedMusic, after: ParsedMusic, issues: ScoreIssue[], remaining: ScoreIssue[], round: number): MeasureRepair[] => {
+    const repairs: MeasureRepair[] = [];
+    const stillBroken = (partName: string, measureIndex?: number) => remaining.some(issue =>
+        issue.severity === 'error' && issue.partName === partName && issue.measureIndex === measureIndex
+    );
+
+    for (const issue of issues) {
+        if (issue.severity !== 'error' || !issue.partName) continue;
+
+        const partBefore = before.parts.find(part => part.partName === issue.partName);
+        const partAfter = after.parts.find(part => part.partName === issue.partName);
+        const describe = (part: typeof partBefore) => issue.measureIndex === undefined
+            ? `${part?.measures.length ?? 0} measures`
+            : formatMeasure(part?.measures[issue.measureIndex]);
+
+        const beforeText = describe(partBefore);
+        const afterText = describe(partAfter);
+        const isDuplicate = repairs.some(repair => repair.partName === issue.partName && repair.measureIndex === issue.measureIndex);
+        if (beforeText === afterText || isDuplicate) continue;
+
+        repairs.push({
+            round, partName: issue.partName, measureIndex: issue.measureIndex, problem: issue.message,
+            before: beforeText, after: afterText, resolved: !stillBroken(issue.partName, issue.measureIndex)
+        });
+    }
+    return repairs;
+};
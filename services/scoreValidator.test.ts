@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { ParsedMusic } from '../types';
+import { validateScore } from './scoreValidator';
+
+const score = (timeSignature: string, measures: ParsedMusic['parts'][number]['measures'][]): ParsedMusic => ({
+    tempo: 100,
+    timeSignature,
+    parts: measures.map((partMeasures, index) => ({ partName: ['Soprano', 'Bass'][index], measures: partMeasures })),
+});
+
+describe('validateScore', () => {
+    it('accepts measures that fill the time signature, counting dots, tuplets and chords', () => {
+        const music = score('6/8', [[
+            { notes: [{ pitch: 'C4', duration: 'quarter', dots: 1 }, { pitch: 'E4', chord: ['G4'], duration: 'quarter', dots: 1 }] },
+            { notes: [{ pitch: 'D4', duration: 'quarter', tuplet: { actual: 3, normal: 2 } }, { pitch: 'rest', duration: 'quarter', tuplet: { actual: 3, normal: 2 } }, { pitch: 'F#4', duration: 'quarter', tuplet: { actual: 3, normal: 2 } }, { pitch: 'A4', duration: 'quarter' }] },
+        ]]);
+
+        expect(validateScore(music)).toEqual([]);
+    });
+
+    it('reports a measure of the wrong length, and only warns about a short first or last one', () => {
+        const music = score('4/4', [[
+            { notes: [{ pitch: 'G4', duration: 'quarter' }] },
+            { notes: [{ pitch: 'C5', duration: 'half' }, { pitch: 'B4', duration: 'quarter' }] },
+            { notes: [{ pitch: 'C5', duration: 'whole' }, { pitch: 'D5', duration: 'quarter' }] },
+        ]]);
+
+        expect(validateScore(music)).toEqual([
+            expect.objectContaining({ kind: 'measure-length', severity: 'warning', measureIndex: 0, actualBeats: 1 }),
+            expect.objectContaining({ kind: 'measure-length', severity: 'error', measureIndex: 1, actualBeats: 3, message: 'Soprano, measure 2: 3 beats instead of 4.' }),
+            expect.objectContaining({ kind: 'measure-length', severity: 'error', measureIndex: 2, actualBeats: 5 }),
+        ]);
+    });
+
+    it('reports pitches and durations it can\'t read, including those inside chords', () => {
+        const music = score('2/4', [[
+            { notes: [{ pitch: 'H4', duration: 'quarter' }, { pitch: 'C4', chord: ['E'], duration: 'quarter' }] },
+            { notes: [{ pitch: 'C4', duration: 'half', dots: 3 }] },
+        ]]);
+        const issues = validateScore(music);
+
+        expect(issues.filter(issue => issue.kind === 'invalid-pitch').map(issue => issue.pitch)).toEqual(['H4', 'E']);
+        expect(issues.filter(issue => issue.kind === 'invalid-duration')).toEqual([
+            expect.objectContaining({ partName: 'Soprano', measureIndex: 1, noteIndex: 0 }),
+        ]);
+    });
+
+    it('reports a part with fewer measures than the others', () => {
+        const whole = { notes: [{ pitch: 'C4', duration: 'whole' as const }] };
+
+        expect(validateScore(score('4/4', [[whole, whole], [whole]]))).toEqual([
+            expect.objectContaining({ kind: 'measure-count', partName: 'Bass', message: 'Bass has 1 measures; the longest part has 2.' }),
+        ]);
+    });
+
+    it('doesn\'t check measure lengths against a time signature it can\'t read', () => {
+        const issues = validateScore(score('4/5', [[{ notes: [{ pitch: 'C4', duration: 'quarter' }] }]]));
+
+        expect(issues.map(issue => issue.kind)).toEqual(['time-signature']);
+    });
+});
@@ -0,0 +1,94 @@
+import { ParsedMusic, Note } from '../types';
+import { DURATION_BEATS, noteBeats, notePitches } from './noteDurations';
+
+/** A problem with a score, located by part and (0-based) measure where it has one. */
+export interface ScoreIssue {
+    kind: 'time-signature' | 'measure-length' | 'measure-count' | 'invalid-pitch' | 'invalid-duration';
+    severity: 'error' | 'warning';
+    message: string;
+    partName?: string;
+    measureIndex?: number;
+    noteIndex?: number;
+    expectedBeats?: number;
+    actualBeats?: number;
+    pitch?: string; // the pitch string that failed to parse
+}
+
+const PITCH_PATTERN = /^[A-G](#{1,2}|b{1,2})?\d$/;
+const EPSILON = 1e-6;
+
+// Beats per measure in quarter notes, so 6/8 is 3 and 2/2 is 4; null if the signature can't be read.
+const beatsPerMeasure = (timeSignature: string): number | null => {
+    const match = timeSignature?.match(/^\s*(\d+)\s*\/\s*(1|2|4|8|16|32)\s*$/);
+    return match ? Number(match[1]) * 4 / Number(match[2]) : null;
+};
+
+const formatBeats = (beats: number): string => String(Math.round(beats * 1000) / 1000);
+
+const validateNote = (note: Note, partName: string, measureIndex: number, noteIndex: number): ScoreIssue[] => {
+    const issues: ScoreIssue[] = [];
+    const at = { partName, measureIndex, noteIndex };
+
+    for (const pitch of notePitches(note)) {
+        if (typeof pitch !== 'string' || !PITCH_PATTERN.test(pitch)) {
+            issues.push({
+                kind: 'invalid-pitch', severity: 'error', ...at, pitch: String(pitch),
+                message: `${partName}, measure ${measureIndex + 1}: "${pitch}" is not a pitch in scientific notation (e.g. "F#4").`
+            });
+        }
+    }
+
+    const hasBadDots = note.dots !== undefined && !(Number.isInteger(note.dots) && note.dots >= 0 && note.dots <= 2);
+    const hasBadTuplet = note.tuplet !== undefined && !(note.tuplet.actual > 0 && note.tuplet.normal > 0);
+    if (!(note.duration in DURATION_BEATS) || hasBadDots || hasBadTuplet) {
+        issues.push({
+            kind: 'invalid-duration', severity: 'error', ...at,
+            message: `${partName}, measure ${measureIndex + 1}: note ${noteIndex + 1} has an invalid duration.`
+        });
+    }
+    return issues;
+};
+
+/**
+ * Checks a score before it is played or exported: that every measure fills the time signature,
+ * every pitch is scientific pitch notation and every part has the same number of measures.
+ * A short first or last measure is only a warning, since it may be a pickup.
+ */
+export const validateScore = (music: ParsedMusic): ScoreIssue[] => {
+    const issues: ScoreIssue[] = [];
+    const expectedBeats = beatsPerMeasure(music.timeSignature);
+    if (expectedBeats === null) {
+        issues.push({
+            kind: 'time-signature', severity: 'error',
+            message: `The time signature "${music.timeSignature}" could not be read, so measure lengths were not checked.`
+        });
+    }
+
+    const measureCount = Math.max(0, ...music.parts.map(part => part.measures.length));
+
+    for (const part of music.parts) {
+        if (part.measures.length < measureCount) {
+            issues.push({
+                kind: 'measure-count', severity: 'error', partName: part.partName,
+                message: `${part.partName} has ${part.measures.length} measures; the longest part has ${measureCount}.`
+            });
+        }
+
+        part.measures.forEach((measure, measureIndex) => {
+            measure.notes.forEach((note, noteIndex) => issues.push(...validateNote(note, part.partName, measureIndex, noteIndex)));
+            if (expectedBeats === null) return;
+
+            const actualBeats = measure.notes.reduce((total, note) => total + (note.duration in DURATION_BEATS ? noteBeats(note) : 0), 0);
+            if (Math.abs(actualBeats - expectedBeats) < EPSILON) return;
+
+            const isEdge = measureIndex === 0 || measureIndex === part.measures.length - 1;
+            issues.push({
+                kind: 'measure-length',
+                severity: isEdge && actualBeats < expectedBeats ? 'warning' : 'error',
+                partName: part.partName, measureIndex, expectedBeats, actualBeats,
+                message: `${part.partName}, measure ${measureIndex + 1}: ${formatBeats(actualBeats)} beats instead of ${formatBeats(expectedBeats)}.`
+            });
+        });
+    }
+    return issues;
+};
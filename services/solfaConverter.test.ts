@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { Measure } from '../types';
+import { SolfegeParser } from './solfegeParser';
+import { solfaScoreToParsedMusic } from './solfaConverter';
+
+const convert = (text: string) => solfaScoreToParsedMusic(new SolfegeParser().parse(text));
+
+// Pitch, value and tie of each note, e.g. "C4 q." for a dotted quarter or "D4 e~" for a tied eighth.
+const written = (measures: Measure[]) =>
+    measures.map(measure => measure.notes.map(note => {
+        const value = `${note.duration.charAt(0)}${'.'.repeat(note.dots || 0)}${note.tuplet ? `/${note.tuplet.actual}` : ''}`;
+        return `${note.pitch === 'rest' ? 'R' : note.pitch} ${value}${note.tie ? '~' : ''}`;
+    }).join(', '));
+
+describe('solfaScoreToParsedMusic', () => {
+    it('writes dotted beats as dotted values', () => {
+        const { parts } = convert('Doh is C\nS: d.,r :m :- :- | s :-.l :t :-');
+
+        expect(written(parts[0].measures)).toEqual([
+            'C4 e., D4 s, E4 h.',
+            'G4 q., A4 e, B4 h',
+        ]);
+    });
+
+    it('writes divided beats as halves, quarters and triplets', () => {
+        const { parts } = convert('Doh is C\nS: d.r :m.f.s :l.t.d\'.r\' :m\'');
+
+        expect(written(parts[0].measures)).toEqual([
+            'C4 e, D4 e, E4 e/3, F4 e/3, G4 e/3, A4 s, B4 s, C5 s, D5 s, E5 q',
+        ]);
+    });
+
+    it('ties notes that last longer than one value and across the barline', () => {
+        const { parts } = convert('Doh is C\nS: d :- :-.r :m | - :f :s :-');
+
+        expect(written(parts[0].measures)).toEqual([
+            'C4 h~, C4 e, D4 e, E4 q~',
+            'E4 q, F4 q, G4 h',
+        ]);
+    });
+
+    it('writes empty beats and subdivisions as rests, and drops parts that only rest', () => {
+        const { parts } = convert('Doh is C\nS: d : :.r :m\nA:  : : :');
+
+        expect(parts.map(part => part.partName)).toEqual(['Soprano']);
+        expect(written(parts[0].measures)).toEqual(['C4 q, R q, R e, D4 e, E4 q']);
+    });
+
+    it('ties a plain value to a tuplet value when the length needs both', () => {
+        const { parts } = convert('Doh is C\nS: d.r.m :-.,f');
+
+        expect(written(parts[0].measures)).toEqual(['C4 e/3, D4 e/3, E4 e.~, E4 e/3, F4 s']);
+    });
+
+    it('reports a length no values add up to instead of writing a sixteenth', () => {
+        const score = new SolfegeParser().parse('Doh is C\nS: d.r.m.f.s.l.t.d.r :m');
+        const errors = score.diagnostics.filter(diagnostic => diagnostic.severity === 'error');
+
+        expect(errors).toHaveLength(9);
+        expect(errors[0]).toMatchObject({ line: 2, column: 4, message: 'A note of 0.111 beats can\'t be written with note values, even tied; it was left out.' });
+        expect(written(solfaScoreToParsedMusic(score).parts[0].measures)).toEqual(['E5 q']);
+    });
+});
@@ -0,0 +1,129 @@
+import { ParsedMusic, Part, Measure, Note, Tuplet } from '../types';
+import { DURATION_BEATS } from './noteDurations';
+import { ParsedSolfaScore, SolfaMeasure, SolfaNote } from './solfegeParser';
+
+type NoteValue = Pick<Note, 'duration' | 'dots' | 'tuplet'>;
+
+// Plain and dotted values, longest first.
+const NOTE_VALUES: [NoteValue, number][] = (Object.keys(DURATION_BEATS) as Note['duration'][])
+    .flatMap(duration => [
+        [{ duration, dots: 1 }, DURATION_BEATS[duration] * 1.5] as [NoteValue, number],
+        [{ duration }, DURATION_BEATS[duration]] as [NoteValue, number],
+    ]);
+
+// Beat splits the binary values can't reach (3, 5, 6 or 7 notes to a beat) are read as tuplets.
+const TUPLETS: Tuplet[] = [{ actual: 3, normal: 2 }, { actual: 5, normal: 4 }, { actual: 6, normal: 4 }, { actual: 7, normal: 4 }];
+
+// Fills a length greedily with plain and dotted values; null if a remainder is left over.
+const fillWithValues = (beats: number): NoteValue[] | null => {
+    const values: NoteValue[] = [];
+    let remaining = beats;
+    for (const [value, length] of NOTE_VALUES) {
+        while (remaining >= length - 1e-6) {
+            values.push(value);
+            remaining -= length;
+        }
+    }
+    return values.length > 0 && remaining < 1e-6 ? values : null;
+};
+
+/**
+ * The note values for a length in beats: one value where possible (1.5 is a dotted quarter),
+ * otherwise values to be tied together (2.5 is a half tied to an eighth), scaled into a tuplet when
+ * the length only fits one (a third of a beat is a triplet eighth) or a plain length tied to a tuplet
+ * one (a quarter and a third is a sixteenth tied to a triplet eighth). Empty when no values add up
+ * to the length, such as a ninth of a beat.
+ */
+export const beatsToNoteValues = (beats: number): NoteValue[] => {
+    const plain = fillWithValues(beats);
+    if (plain) return plain;
+
+    for (const tuplet of TUPLETS) {
+        const values = fillWithValues(beats * tuplet.actual / tuplet.normal);
+        if (values) return values.map(value => ({ ...value, tuplet }));
+    }
+    const sixteenth = DURATION_BEATS.sixteenth;
+    for (let plainBeats = Math.floor(beats / sixteenth + 1e-6) * sixteenth; plainBeats > 1e-6; plainBeats -= sixteenth) {
+        for (const tuplet of TUPLETS) {
+            const head = fillWithValues(plainBeats);
+            const tail = fillWithValues((beats - plainBeats) * tuplet.actual / tuplet.normal);
+            if (head && tail) return [...head, ...tail.map(value => ({ ...value, tuplet }))];
+        }
+    }
+    return [];
+};
+
+const solfaNoteToNotes = (note: SolfaNote): Note[] => {
+    const values = beatsToNoteValues(note.beats);
+    return values.map((value, index) => {
+        const converted: Note = { pitch: note.isRest ? 'rest' : `${note.noteName}${note.octave}`, ...value };
+        if (!note.isRest && index < values.length - 1) {
+            converted.tie = true;
+        }
+        // Only the first of several tied notes is where the syllable is sung.
+        if (note.lyric && index === 0) {
+            converted.lyric = Array.from(note.lyric, syllable => syllable || '');
+        }
+        return converted;
+    });
+};
+
+// A "-" after a barline continues the last note of the previous measure, so that note is tied over.
+const measuresToNotes = (measures: SolfaMeasure[]): Measure[] => {
+    const converted = measures.map(measure => ({ notes: measure.flatMap(solfaNoteToNotes) }));
+    measures.forEach((measure, index) => {
+        const lastNote = converted[index - 1]?.notes.slice(-1)[0];
+        if (measure[0]?.isContinuation && lastNote && lastNote.pitch !== 'rest') {
+            lastNote.tie = true;
+        }
+    });
+    return converted;
+};
+
+/** The sol-fa note behind a written note of the converted score, by part id and indexes in the parser's output. */
+export interface SolfaNoteLocation {
+    partId: string;
+    measureIndex: number;
+    noteIndex: number;
+    note: SolfaNote;
+}
+
+const hasSungNotes = (measures: SolfaMeasure[]): boolean => measures.some(measure => measure.some(note => !note.isRest));
+
+/**
+ * Converts the sol-fa parser's output into the app's `ParsedMusic`, so deterministic parser results
+ * can go straight to the viewer, `SoundEngine` and `MIDIGenerator`. Parts with nothing but rests are dropped.
+ */
+export const solfaScoreToParsedMusic = (score: ParsedSolfaScore): ParsedMusic => {
+    const parts: Part[] = score.layout.parts
+        .filter(voice => hasSungNotes(score.parts[voice.id] || []))
+        .map(voice => ({
+            partName: voice.name,
+            measures: measuresToNotes(score.parts[voice.id]),
+        }));
+
+    const music: ParsedMusic = { tempo: score.tempo, timeSignature: `${score.beatsPerMeasure}/4`, parts };
+    if (score.sections.length > 0) {
+        music.sections = score.sections;
+    }
+    return music;
+};
+
+/**
+ * Finds the sol-fa note a note of `solfaScoreToParsedMusic`'s result came from, retracing how each
+ * sol-fa note became one or more tied notes. Null when the score has no such note.
+ */
+export const locateSolfaNote = (score: ParsedSolfaScore, partName: string, measureIndex: number, noteIndex: number): SolfaNoteLocation | null => {
+    const voice = score.layout.parts.find(candidate => candidate.name === partName);
+    const measure = voice && score.parts[voice.id]?.[measureIndex];
+    if (!voice || !measure) return null;
+
+    let written = 0;
+    for (let index = 0; index < measure.length; index++) {
+        written += beatsToNoteValues(measure[index].beats).length;
+        if (noteIndex < written) {
+            return { partId: voice.id, measureIndex, noteIndex: index, note: measure[index] };
+        }
+    }
+    return null;
+};
@@ -0,0 +1,42 @@
+import { SolfaInputFormat } from './solfegeParser';
+
+export interface SolfaExample {
+    text: string;
+    format: SolfaInputFormat;
+}
+
+/** The SATB examples offered in the notation editor, one for each input format. */
+export const SOLFA_EXAMPLES: Record<'separate' | 'vertical' | 'chords', SolfaExample> = {
+    separate: {
+        format: 'separate',
+        text: `Doh is Eb
+S: d:r.m | m:f.s | s:l.s | f:m.r
+A: s:s.s | d:d.d | d:d.d | l:s.f
+T: m:f.s | s:l.s | s:s.d'| d':t.l
+B: d:d.d | d:d.d | d:l.t,| d:s.s`,
+    },
+    vertical: {
+        format: 'vertical',
+        text: `Doh is G
+// Each line represents a voice part (S, A, T, B) in order.
+// Notes in the same column are played together.
+s.s l.l | s.f m.r | d
+m.m f.f | m.r d.t,| d
+d'.d' d'.d'| s.s s.s | s
+d.d d.d | d.s, s,.s,| d`,
+    },
+    chords: {
+        format: 'mixed',
+        text: `Doh is C
+// This example mixes explicit part indicators with vertical harmony for the chorus.
+// Verse 1
+S: d r m | f m r
+A: s, l, t,| d t, l,
+
+// Chorus
+| d m s d'| t l s - |
+| s, d m s | s f m - |
+| m s d' m'| r' d' t - |
+| d d d d | s, l, s, - |`,
+    },
+};
@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { ParsedMusic } from '../types';
+import { SolfegeParser } from './solfegeParser';
+import { serializeToSolfa } from './solfaSerializer';
+import { DEFAULT_VOICE_LAYOUT } from './voiceLayouts';
+
+const INSTRUMENTS: ParsedMusic = {
+    tempo: 100,
+    timeSignature: '4/4',
+    parts: [
+        {
+            partName: 'Violin',
+            measures: [
+                { notes: [{ pitch: 'G5', duration: 'quarter' }, { pitch: 'F#5', duration: 'eighth' }, { pitch: 'E5', duration: 'eighth' }, { pitch: 'D5', duration: 'half' }] },
+                { notes: [{ pitch: 'B4', duration: 'half', dots: 1 }, { pitch: 'rest', duration: 'quarter' }] },
+            ],
+        },
+        {
+            partName: 'Piano',
+            measures: [
+                { notes: [{ pitch: 'G2', duration: 'half' }, { pitch: 'D3', duration: 'half' }] },
+                { notes: [{ pitch: 'G3', duration: 'whole' }] },
+            ],
+        },
+    ],
+};
+
+const SSA: ParsedMusic = {
+    tempo: 90,
+    timeSignature: '3/4',
+    parts: ['Soprano 1', 'Soprano 2', 'Alto'].map((partName, index) => ({
+        partName,
+        measures: [{ notes: [{ pitch: ['G5', 'D5', 'B3'][index], duration: 'half' }, { pitch: ['C6', 'E4', 'G3'][index], duration: 'quarter' }] }],
+    })),
+};
+
+const pitchesByPart = (music: ParsedMusic) =>
+    Object.fromEntries(music.parts.map(part => [part.partName, part.measures.map(measure => measure.notes.map(note => note.pitch))]));
+
+describe('serializeToSolfa', () => {
+    it('names parts that aren\'t voices, so they read back as themselves in any layout', () => {
+        const { text } = serializeToSolfa(INSTRUMENTS, 'G');
+        const music = new SolfegeParser().parseToMusic(text, undefined, DEFAULT_VOICE_LAYOUT);
+
+        expect(text).toContain('Parts: Violin, Piano');
+        expect(music.parts.map(part => part.partName)).toEqual(['Violin', 'Piano']);
+        expect(pitchesByPart(music)).toEqual(pitchesByPart(INSTRUMENTS));
+        expect(music.tempo).toBe(100);
+    });
+
+    it('names the layout of voice parts, so they read back in it', () => {
+        const { text } = serializeToSolfa(SSA, 'C');
+        const score = new SolfegeParser().parse(text);
+
+        expect(text).toContain('Layout: SSA');
+        expect(score.layout.id).toBe('ssa');
+        expect(pitchesByPart(new SolfegeParser().parseToMusic(text))).toEqual(pitchesByPart(SSA));
+    });
+
+    it('writes octaves with standard marks only', () => {
+        const { text } = serializeToSolfa(INSTRUMENTS, 'G');
+
+        expect(text).not.toMatch(/,'/);
+        expect(text).toContain("Violin: d' :t.l :s :- | m :- :- : ||");
+        expect(text).toContain('Piano: d,, :- :s,, :- | d, :- :- :- ||');
+    });
+
+    it('warns about the chord pitches it leaves out', () => {
+        const withChord: ParsedMusic = {
+            ...INSTRUMENTS,
+            parts: [INSTRUMENTS.parts[0], { partName: 'Piano', measures: [INSTRUMENTS.parts[1].measures[0], { notes: [{ pitch: 'E4', chord: ['C4', 'G4'], duration: 'whole' }] }] }],
+        };
+        const { text, warnings } = serializeToSolfa(withChord, 'C');
+
+        expect(text).toContain('Piano: s,, :- :r, :- | m :- :- :- ||');
+        expect(warnings).toEqual(['Piano has chords in measure(s) 2; a sol-fa line holds one pitch at a time, so only the main pitch of each chord was written.']);
+        expect(serializeToSolfa(INSTRUMENTS, 'G').warnings).toEqual([]);
+    });
+
+    it('refuses parts that would share a prefix', () => {
+        const twoPianos: ParsedMusic = { ...INSTRUMENTS, parts: [INSTRUMENTS.parts[1], { ...INSTRUMENTS.parts[1], partName: 'piano' }] };
+
+        expect(() => serializeToSolfa(twoPianos, 'G')).toThrow(/Two parts are called "piano"/);
+    });
+});
@@ -0,0 +1,201 @@
+import { ParsedMusic, Part, Note } from '../types';
+import { MAJOR_KEYS, RELATIVE_MAJORS, pitchOffset, dohMidiInRange } from './solfegeParser';
+import { noteBeats } from './noteDurations';
+import { VoiceLayout, VoicePart, VOICE_LAYOUTS, CUSTOM_LAYOUT_ID, customVoiceLayout } from './voiceLayouts';
+
+const LETTERS = ['C', 'D', 'E', 'F', 'G', 'A', 'B'];
+
+const DEGREE_SYLLABLES = ['d', 'r', 'm', 'f', 's', 'l', 't'];
+const DEGREE_SEMITONES = [0, 2, 4, 5, 7, 9, 11];
+// Chromatic syllables by scale degree, in the spellings the parser reads back.
+const RAISED_SYLLABLES: Record<number, string> = { 0: 'de', 1: 'ri', 3: 'fe', 4: 'se', 5: 'le' };
+const LOWERED_SYLLABLES: Record<number, string> = { 1: 'ra', 2: 'ma', 5: 'lo', 6: 'ta' };
+// For spellings without a syllable of their own (E# in C, double accidentals), by semitones above doh.
+const SYLLABLES_BY_SEMITONE = ['d', 'de', 'r', 'ma', 'm', 'f', 'fe', 's', 'se', 'l', 'ta', 't'];
+
+const MEASURES_PER_SYSTEM = 4;
+// Equal divisions of a beat, plainest first; 3, 5, 6 and 7 come from tuplets, 8 from dotted sixteenths.
+const SUBDIVISIONS = [2, 3, 4, 5, 6, 7, 8];
+const EPSILON = 1e-6;
+
+interface SpelledPitch {
+    letter: string;
+    midi: number;
+}
+
+interface SolfaEvent {
+    start: number; // beats from the start of the measure
+    end: number;
+    token: string | null; // null for rests
+}
+
+export interface SolfaSerializeResult {
+    text: string;
+    warnings: string[]; // what of the score the sol-fa couldn't hold, such as chords
+}
+
+const parsePitch = (pitch: string): SpelledPitch | null => {
+    const match = pitch.match(/^([A-G])(#{1,2}|b{1,2})?(-?\d)$/);
+    if (!match) return null;
+    const [, letter, accidentals = '', octave] = match;
+    return { letter, midi: 12 * (Number(octave) + 1) + pitchOffset(letter + accidentals) };
+};
+
+/** Names the pitch by its scale degree, so F# in C is "fe" and Gb is "se" only if no flat syllable fits. */
+const syllableFor = (pitch: SpelledPitch, doh: string): string => {
+    const semitonesAboveDoh = (((pitch.midi - pitchOffset(doh)) % 12) + 12) % 12;
+    const degree = (LETTERS.indexOf(pitch.letter) - LETTERS.indexOf(doh.charAt(0)) + 7) % 7;
+    const alteration = ((semitonesAboveDoh - DEGREE_SEMITONES[degree] + 18) % 12) - 6;
+
+    const syllable = alteration === 0 ? DEGREE_SYLLABLES[degree]
+        : alteration === 1 ? RAISED_SYLLABLES[degree]
+        : alteration === -1 ? LOWERED_SYLLABLES[degree]
+        : undefined;
+    return syllable || SYLLABLES_BY_SEMITONE[semitonesAboveDoh];
+};
+
+/**
+ * The layout whose voice names match the parts, or else one made from the part names themselves.
+ * Throws when a name can't be told apart from another part's or can't stand as a line prefix.
+ */
+const chooseLayout = (parts: Part[]): VoiceLayout => {
+    const names = parts.map(part => part.partName.trim());
+    names.forEach((name, index) => {
+        if (!/^[A-Za-z][^:|,]*$/.test(name)) {
+            throw new Error(`The part name "${name}" can't be written as a sol-fa line prefix.`);
+        }
+        if (names.findIndex(other => other.toLowerCase() === name.toLowerCase()) !== index) {
+            throw new Error(`Two parts are called "${name}"; rename one so each has its own sol-fa lines.`);
+        }
+    });
+
+    const byName = VOICE_LAYOUTS.find(layout =>
+        names.every(name => layout.parts.some(voice => voice.name.toLowerCase() === name.toLowerCase()))
+    );
+    return byName || customVoiceLayout(names);
+};
+
+// Voices go by their shortest alias ("S:"); parts of a custom layout by their full names ("Piano:").
+const partPrefix = (layout: VoiceLayout, voice: VoicePart): string => {
+    if (layout.id === CUSTOM_LAYOUT_ID) return `${voice.name}:`;
+    const shortest = [...voice.aliases].sort((a, b) => a.length - b.length)[0];
+    return `${shortest.toUpperCase()}:`;
+};
+
+/**
+ * Writes one measure, choosing for each beat the plainest division that fits its notes:
+ * whole, halves ("d.r"), dotted (".,") or equal parts ("d.r.m" for a triplet, "d.r.m.f" for quarters).
+ */
+const writeMeasure = (events: SolfaEvent[]): string => {
+    const length = events.length > 0 ? events[events.length - 1].end : 0;
+    const beatCount = Math.max(1, Math.ceil(length - EPSILON));
+
+    const slotAt = (position: number): string => {
+        const event = events.find(candidate => candidate.start <= position + EPSILON && position + EPSILON < candidate.end);
+        if (!event || event.token === null) return '';
+        return Math.abs(event.start - position) < EPSILON ? event.token : '-';
+    };
+
+    const beats: string[] = [];
+    for (let beat = 0; beat < beatCount; beat++) {
+        const boundaries = events
+            .flatMap(event => [event.start, event.end])
+            .map(position => position - beat)
+            .filter(offset => offset > EPSILON && offset < 1 - EPSILON);
+        const fitsDivision = (parts: number) =>
+            boundaries.every(offset => Math.abs(offset * parts - Math.round(offset * parts)) < EPSILON * parts);
+
+        if (boundaries.length === 0) {
+            beats.push(slotAt(beat));
+        } else if (boundaries.every(offset => Math.abs(offset - 0.75) < EPSILON)) {
+            beats.push(`${slotAt(beat)}.,${slotAt(beat + 0.75)}`);
+        } else {
+            const parts = SUBDIVISIONS.find(fitsDivision) ?? SUBDIVISIONS[SUBDIVISIONS.length - 1];
+            beats.push(Array.from({ length: parts }, (_, index) => slotAt(beat + index / parts)).join('.'));
+        }
+    }
+    return beats.join(' :');
+};
+
+/**
+ * Writes a part's measures as sol-fa. Octave marks count from the voice's doh, as the parser reads them
+ * under an "Octaves: as written" header: unmarked notes are in the doh octave, "d'" above it, "t," below.
+ * A sol-fa line has one pitch at a time, so chords are written as their main pitch (and reported by
+ * `serializeToSolfa`).
+ */
+const writePart = (part: Part, voice: VoicePart, doh: string): string[] => {
+    const dohMidi = dohMidiInRange(doh, voice.range);
+    let tiedFrom: Note | null = null;
+
+    const tokenFor = (note: Note): string | null => {
+        const pitch = parsePitch(note.pitch);
+        if (!pitch) return null;
+
+        const syllable = syllableFor(pitch, doh);
+        const writtenMidi = dohMidi + (((pitch.midi - pitchOffset(doh)) % 12) + 12) % 12;
+        const octaveShift = Math.round((pitch.midi - writtenMidi) / 12);
+        return syllable + (octaveShift > 0 ? "'".repeat(octaveShift) : ','.repeat(-octaveShift));
+    };
+
+    return part.measures.map(measure => {
+        let position = 0;
+        const events = measure.notes.map(note => {
+            const beats = noteBeats(note);
+            // A tied note is held with "-", which also carries it over a barline.
+            const isHeld = tiedFrom?.pitch === note.pitch && note.pitch !== 'rest' && (!tiedFrom.tiedPitches || tiedFrom.tiedPitches.includes(note.pitch));
+            const event: SolfaEvent = { start: position, end: position + beats, token: isHeld ? '-' : tokenFor(note) };
+            tiedFrom = note.tie ? note : null;
+            position += beats;
+            return event;
+        });
+        return writeMeasure(events);
+    });
+};
+
+/**
+ * Writes a score as Tonic Sol-fa in the given key ("Eb", or "Cm" for lah-mode minor), without the AI.
+ * Parts are labelled with the aliases of the matching voice layout (or their own names, listed in a
+ * "Parts:" header, when they aren't voices of one) and set out in systems of a few measures, with a
+ * "// Chorus" comment where each section starts, so reading the text back with `SolfegeParser` gives
+ * the same pitches, rhythm and sections whatever layout it is given. Chords keep only their main
+ * pitch, with a warning naming the measures that had them. Throws when two parts share a name.
+ */
+export const serializeToSolfa = (music: ParsedMusic, key: string): SolfaSerializeResult => {
+    const isMinor = /^[A-G][b#]?m$/.test(key);
+    const tonic = isMinor ? key.slice(0, -1) : key;
+    const doh = (isMinor ? RELATIVE_MAJORS[tonic] : MAJOR_KEYS.includes(tonic) ? tonic : undefined) || 'C';
+
+    const layout = chooseLayout(music.parts);
+    const parts = music.parts.map(part => {
+        const voice = layout.parts.find(candidate => candidate.name.toLowerCase() === part.partName.trim().toLowerCase())!;
+        return { prefix: partPrefix(layout, voice), measures: writePart(part, voice, doh) };
+    });
+
+    const measureCount = Math.max(0, ...parts.map(part => part.measures.length));
+    const sections = music.sections || [];
+    const systems: string[] = [];
+    for (let start = 0; start < measureCount;) {
+        // Systems also break where a section starts, so its comment sits above its first measure.
+        const nextSection = sections.find(section => section.startMeasure > start)?.startMeasure ?? measureCount;
+        const end = Math.min(start + MEASURES_PER_SYSTEM, nextSection, measureCount);
+        const section = sections.find(candidate => candidate.startMeasure === start);
+        const lines = parts
+            .filter(part => part.measures.length > start)
+            .map(part => `${part.prefix} ${part.measures.slice(start, end).join(' | ')} ${end === measureCount ? '||' : '|'}`);
+        systems.push([...(section ? [`// ${section.name}`] : []), ...lines].join('\n'));
+        start = end;
+    }
+
+    const keyLine = isMinor && RELATIVE_MAJORS[tonic] ? `Lah is ${tonic}` : `Doh is ${doh}`;
+    const layoutLine = layout.id === CUSTOM_LAYOUT_ID ? `Parts: ${layout.label}` : `Layout: ${layout.label}`;
+    const header = [keyLine, `Tempo: ${music.tempo}`, layoutLine, 'Octaves: as written'].join('\n');
+    const warnings = music.parts.flatMap(part => {
+        const chordMeasures = part.measures
+            .map((measure, index) => measure.notes.some(note => note.chord?.length) ? index + 1 : 0)
+            .filter(measureNumber => measureNumber > 0);
+        return chordMeasures.length > 0
+            ? [`${part.partName} has chords in measure(s) ${chordMeasures.join(', ')}; a sol-fa line holds one pitch at a time, so only the main pitch of each chord was written.`]
+            : [];
+    });
+    return { text: [header, ...systems].join('\n\n'), warnings };
+};
@@ -0,0 +1,148 @@
+import { describe, expect, it } from 'vitest';
+import { SolfegeParser, SolfaMeasure } from './solfegeParser';
+import { SOLFA_EXAMPLES } from './solfaExamples';
+
+const syllables = (measures: SolfaMeasure[]) =>
+    measures.map(measure => measure.map(note => note.isRest ? '-' : note.solfege).join(' '));
+
+const pitches = (measures: SolfaMeasure[]) =>
+    measures.map(measure => measure.map(note => note.isRest ? '-' : `${note.noteName}${note.octave}`).join(' '));
+
+const CHORDS = SOLFA_EXAMPLES.chords.text;
+
+describe('SolfegeParser input formats', () => {
+    it('gives unprefixed lines of a mixed piece to the voices in turn', () => {
+        const score = new SolfegeParser().parse(CHORDS, undefined, undefined, 'mixed');
+
+        expect(score.isPlaced).toBe(true);
+        expect(syllables(score.parts.soprano)).toEqual(['do re mi', 'fa mi re', 'do mi sol do', 'ti la sol']);
+        expect(syllables(score.parts.alto)).toEqual(['sol la ti', 'do ti la', 'sol do mi sol', 'sol fa mi']);
+        expect(syllables(score.parts.tenor)).toEqual(['-', '-', 'mi sol do mi', 're do ti']);
+        expect(syllables(score.parts.bass)).toEqual(['-', '-', 'do do do do', 'sol la sol']);
+    });
+
+    it('reports a piece whose lines it cannot place', () => {
+        const score = new SolfegeParser().parse(CHORDS);
+
+        expect(score.isPlaced).toBe(false);
+        expect(score.diagnostics.some(d => d.message.includes('check the part prefixes'))).toBe(true);
+    });
+
+    it('reads a title above the music as a heading, not as a line of music', () => {
+        const prefixed = new SolfegeParser().parse('Amazing Grace\nDoh is G\nS: s, :d :- :m\nA: s, :s, :- :d');
+        const cycled = new SolfegeParser().parse('Amazing Grace\nd :r\nm :f\ns :l\nt :d');
+
+        expect(prefixed.isPlaced).toBe(true);
+        expect(prefixed.diagnostics).toEqual([]);
+        expect(prefixed.key).toBe('G');
+        expect(cycled.isPlaced).toBe(true);
+        expect(syllables(cycled.parts.soprano)).toEqual(['do re']);
+        expect(syllables(cycled.parts.bass)).toEqual(['ti do']);
+    });
+
+    it('still reports music above the first part prefix', () => {
+        const score = new SolfegeParser().parse('d :r :m :f\nS: s :l :t :d');
+
+        expect(score.isPlaced).toBe(false);
+    });
+
+    it('continues the voice cycle after a prefixed line in a vertical piece', () => {
+        const score = new SolfegeParser().parse('d r | m f\nA: s, l, | t, d\nm f | s l\nd d | d d', undefined, undefined, 'vertical');
+
+        expect(score.isPlaced).toBe(true);
+        expect(syllables(score.parts.soprano)).toEqual(['do re', 'mi fa']);
+        expect(syllables(score.parts.alto)).toEqual(['sol la', 'ti do']);
+        expect(syllables(score.parts.tenor)).toEqual(['mi fa', 'sol la']);
+        expect(syllables(score.parts.bass)).toEqual(['do do', 'do do']);
+    });
+});
+
+describe('SolfegeParser part indicators', () => {
+    it('reads a syllable with a detached colon as music, not as a part prefix', () => {
+        const score = new SolfegeParser().parse('d :r\nm :f\ns :l\nt :d');
+
+        expect(score.isPlaced).toBe(true);
+        expect(syllables(score.parts.soprano)).toEqual(['do re']);
+        expect(syllables(score.parts.alto)).toEqual(['mi fa']);
+        expect(syllables(score.parts.tenor)).toEqual(['sol la']);
+        expect(syllables(score.parts.bass)).toEqual(['ti do']);
+    });
+
+    it('still reads "S:" and "T:" as prefixes', () => {
+        const score = new SolfegeParser().parse('S: d :r\nT: m :f');
+
+        expect(syllables(score.parts.soprano)).toEqual(['do re']);
+        expect(syllables(score.parts.tenor)).toEqual(['mi fa']);
+    });
+});
+
+describe('SolfegeParser key lines', () => {
+    it('reads "Doh is", "Lah is" and "Key:" headers', () => {
+        const parser = new SolfegeParser();
+
+        expect(parser.parse('Doh is Eb\nS: d').key).toBe('Eb');
+        expect(parser.parse('Lah is A\nS: l,').key).toBe('C');
+        expect(parser.parse('Key: G\nS: d').key).toBe('G');
+    });
+
+    it('names the opening key as the key selector does', () => {
+        const parser = new SolfegeParser();
+
+        expect(parser.parse('Doh is Eb\nS: d').keyName).toBe('Eb');
+        expect(parser.parse('Lah is A\nS: l,').keyName).toBe('Am');
+        expect(parser.parse('S: d', 'G').keyName).toBeUndefined();
+    });
+
+    it('ignores key words inside lyric and music lines', () => {
+        const score = new SolfegeParser().parse('Doh is F\nS: d :r :m :f\nL: mon-key bless the day\nS: s :l :t :d\'');
+
+        expect(score.key).toBe('F');
+        expect(score.parts.soprano[1].map(note => note.noteName)).toEqual(['C', 'D', 'E', 'F']);
+    });
+});
+
+describe('SolfegeParser octaves', () => {
+    const parseExample = (name: keyof typeof SOLFA_EXAMPLES) =>
+        new SolfegeParser().parse(SOLFA_EXAMPLES[name].text, undefined, undefined, SOLFA_EXAMPLES[name].format);
+
+    it('keeps the voices of the separate example in order', () => {
+        const { parts } = parseExample('separate');
+
+        expect(pitches(parts.soprano)).toEqual(['Eb4 F4 G4', 'G4 Ab4 Bb4', 'Bb4 C5 Bb4', 'Ab4 G4 F4']);
+        expect(pitches(parts.alto)).toEqual(['Bb3 Bb3 Bb3', 'Eb4 Eb4 Eb4', 'Eb4 Eb4 Eb4', 'C4 Bb3 Ab3']);
+        expect(pitches(parts.tenor)).toEqual(['G3 Ab3 Bb3', 'Bb3 C4 Bb3', 'Bb3 Bb3 Eb4', 'Eb4 D4 C4']);
+        expect(pitches(parts.bass)).toEqual(['Eb3 Eb3 Eb3', 'Eb3 Eb3 Eb3', 'Eb3 C3 D3', 'Eb3 Bb2 Bb2']);
+    });
+
+    it('reads the vertical example within each voice\'s range', () => {
+        const { parts } = parseExample('vertical');
+
+        expect(pitches(parts.soprano)).toEqual(['D5 D5 E5 E5', 'D5 C5 B4 A4', 'G4']);
+        expect(pitches(parts.alto)).toEqual(['B4 B4 C5 C5', 'B4 A4 G4 F#4', 'G4']);
+        expect(pitches(parts.tenor)).toEqual(['G4 G4 G4 G4', 'D4 D4 D4 D4', 'D4']);
+        expect(pitches(parts.bass)).toEqual(['G3 G3 G3 G3', 'G3 D3 D3 D3', 'G3']);
+    });
+
+    it('reads the marked notes of the chords example from each voice\'s doh', () => {
+        const { parts } = parseExample('chords');
+
+        expect(pitches(parts.soprano)).toEqual(['C4 D4 E4', 'F4 E4 D4', 'C4 E4 G4 C5', 'B4 A4 G4']);
+        expect(pitches(parts.alto)).toEqual(['G3 A3 B3', 'C4 B3 A3', 'G3 C4 E4 G4', 'G4 F4 E4']);
+        expect(pitches(parts.tenor)).toEqual(['-', '-', 'E3 G3 C4 E4', 'D4 C4 B3']);
+        expect(pitches(parts.bass)).toEqual(['-', '-', 'C3 C3 C3 C3', 'G2 A2 G2']);
+    });
+
+    it('moves an unmarked note to the nearest octave of the note before it', () => {
+        const parser = new SolfegeParser();
+
+        expect(pitches(parser.parse('B: d :s :d :s').parts.bass)).toEqual(['C3 G2 C3 G2']);
+        expect(pitches(parser.parse('T: s :d :m :s').parts.tenor)).toEqual(['G3 C4 E4 G4']);
+        expect(pitches(parser.parse('S: m :f :s :l | t :d :r :m').parts.soprano)).toEqual(['E4 F4 G4 A4', 'B4 C5 D5 E5']);
+    });
+
+    it('keeps a bass "d," in range', () => {
+        const { parts } = new SolfegeParser().parse('Doh is Eb\nB: d :d, :s, :d');
+
+        expect(pitches(parts.bass)).toEqual(['Eb3 Eb2 Bb2 Eb3']);
+    });
+});
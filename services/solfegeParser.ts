@@ -1,13 +1,127 @@
+import { ParsedMusic, Section } from '../types';
+import { beatsToNoteValues, solfaScoreToParsedMusic } from './solfaConverter';
+import { VoiceLayout, VoicePart, DEFAULT_VOICE_LAYOUT, findVoiceLayout, customVoiceLayout } from './voiceLayouts';
+
+export const MAJOR_KEYS = ['C', 'G', 'D', 'A', 'E', 'B', 'F#', 'C#', 'F', 'Bb', 'Eb', 'Ab', 'Db', 'Gb', 'Cb'];
+
+// Minor pieces are written in lah-mode: "Lah is A" means doh is the relative major, C.
+// prettier-ignore
+export const RELATIVE_MAJORS: Record<string, string> = {
+    'A': 'C', 'E': 'G', 'B': 'D', 'F#': 'A', 'C#': 'E', 'G#': 'B', 'D#': 'F#', 'A#': 'C#',
+    'D': 'F', 'G': 'Bb', 'C': 'Eb', 'F': 'Ab', 'Bb': 'Db', 'Eb': 'Gb', 'Ab': 'Cb'
+};
+
+export const MINOR_KEYS = Object.keys(RELATIVE_MAJORS);
+
+const LETTER_OFFSETS: Record<string, number> = { 'C': 0, 'D': 2, 'E': 4, 'F': 5, 'G': 7, 'A': 9, 'B': 11 };
+
+// Semitones from C, counting accidentals, so B# is 12 and Cb is -1.
+export const pitchOffset = (noteName: string): number => {
+    const accidentals = noteName.slice(1);
+    return LETTER_OFFSETS[noteName.charAt(0)] + (accidentals.split('#').length - 1) - (accidentals.split('b').length - 1);
+};
+
+/**
+ * The MIDI number of doh in a voice; octave marks count from here. Treble voices take the doh above
+ * middle C and men's voices the one below it, as sol-fa is sung, so "d," and "d'" both stay in range.
+ * A voice pitched above that doh (a descant) takes the next one up.
+ */
+export const dohMidiInRange = (doh: string, range: VoicePart['range']): number => {
+    const centre = (range.min + range.max) / 2;
+    let midiNote = 12 * (centre >= 60 ? 5 : 4) + pitchOffset(doh);
+    while (midiNote < range.min && midiNote + 12 <= range.max) {
+        midiNote += 12;
+    }
+    return midiNote;
+};
+
+/**
+ * Where an unmarked note written at `writtenMidi` is read: the octave closest to the part's previous
+ * note, with the vocal range only ruling out octaves the voice can't sing.
+ */
+export const nearestOctaveInRange = (writtenMidi: number, previousMidi: number | null, range: VoicePart['range']): number => {
+    const target = previousMidi ?? writtenMidi;
+    const candidates = [-4, -3, -2, -1, 0, 1, 2, 3, 4].map(octaves => writtenMidi + octaves * 12);
+    const inRange = candidates.filter(midi => midi >= range.min && midi <= range.max);
+    // Tritone leaps are equally close either way; prefer the octave the note was written in.
+    const byDistance = (a: number, b: number) =>
+        Math.abs(a - target) - Math.abs(b - target) || Math.abs(a - writtenMidi) - Math.abs(b - writtenMidi);
+    return (inRange.length > 0 ? inRange : candidates).sort(byDistance)[0];
+};
+
+/** A problem found in the sol-fa text, positioned by 1-based line and column. */
+export interface SolfaDiagnostic {
+    line: number;
+    column: number;
+    token: string;
+    message: string;
+    severity: 'error' | 'warning';
+}
+
+/** A note or rest as read from sol-fa, before it is converted to the app's `Note`. */
+export interface SolfaNote {
+    solfege: string; // normalised syllable ("do", "fe", ...) or "rest"
+    noteName: string; // pitch spelled in the current key, "R" for rests
+    midiNumber: number | null;
+    part: string;
+    octave?: number;
+    beats: number;
+    isRest?: boolean;
+    isChromatic?: boolean;
+    isContinuation?: boolean; // a "-" carrying the previous measure's last note over the barline
+    lyric?: string[]; // one syllable per verse
+    source?: SolfaSource; // the token the note was read from; absent for empty beats
+}
+
+/** Where a token is in the sol-fa text, by 1-based line and column as for diagnostics. */
+export interface SolfaSource {
+    line: number;
+    column: number;
+    length: number;
+}
+
+/** The notes of one part between two barlines. */
+export type SolfaMeasure = SolfaNote[];
+
+/**
+ * How lines without a part prefix are assigned: 'separate' continues the part of the line above
+ * (or cycles through the voices when no line has a prefix), 'vertical' cycles through the voices
+ * line by line, and 'mixed' starts each run of unprefixed lines again from the first voice.
+ */
+export type SolfaInputFormat = 'separate' | 'vertical' | 'mixed';
+
+/** Everything `SolfegeParser.parse` reads from a piece; every part has the same number of measures. */
+export interface ParsedSolfaScore {
+    key: string; // doh of the opening key
+    keyName?: string; // the opening key as the text names it, "Eb" or "Cm" for lah-mode; absent without a key line
+    layout: VoiceLayout; // the parts are keyed by the ids of this layout's voices
+    tempo: number;
+    beatsPerMeasure: number;
+    parts: Record<string, SolfaMeasure[]>;
+    sections: Section[];
+    diagnostics: SolfaDiagnostic[];
+    isPlaced: boolean; // false when lines were left out or the parts came out with different lengths
+}
+
+type SolfaPitch = Omit<SolfaNote, 'beats'>;
+
 /**
- * A utility class to parse Tonic Sol-fa (solfege) notation, specifically for SATB arrangements.
+ * A utility class to parse Tonic Sol-fa (solfege) notation for choral arrangements (SATB by default,
+ * or any `VoiceLayout` such as SSA or TTBB).
  * This class translates solfege text into a structured format with precise MIDI note information,
  * which can then be used for further processing or display.
  * This implementation is based on the advanced SATBSolfegeParser logic.
  */
 export class SolfegeParser {
     private keyMaps: Record<string, Record<string, string>>;
-    private vocalRanges: Record<string, { min: number; max: number; defaultOctave: number }>;
+    private layout: VoiceLayout = DEFAULT_VOICE_LAYOUT;
     private solfegeVariations: Record<string, string>;
+    private chromaticSyllables: Record<string, { degree: string; alteration: number }>;
+    private lastNoteByPart: Record<string, SolfaPitch> = {};
+    private firstMidiByPart: Record<string, number> = {}; // keeps the voices in order as each one enters
+    private octavesAsWritten = false; // set by an "Octaves: as written" header
+    private diagnostics: SolfaDiagnostic[] = [];
+    private lastLineByPart: Record<string, { notes: SolfaNote[]; verses: number }> = {};
 
     constructor() {
         // prettier-ignore
@@ -16,34 +130,69 @@ export class SolfegeParser {
             'G':  { do: 'G', re: 'A', mi: 'B', fa: 'C', sol: 'D', la: 'E', ti: 'F#' },
             'D':  { do: 'D', re: 'E', mi: 'F#', fa: 'G', sol: 'A', la: 'B', ti: 'C#' },
             'A':  { do: 'A', re: 'B', mi: 'C#', fa: 'D', sol: 'E', la: 'F#', ti: 'G#' },
+            'E':  { do: 'E', re: 'F#', mi: 'G#', fa: 'A', sol: 'B', la: 'C#', ti: 'D#' },
+            'B':  { do: 'B', re: 'C#', mi: 'D#', fa: 'E', sol: 'F#', la: 'G#', ti: 'A#' },
+            'F#': { do: 'F#', re: 'G#', mi: 'A#', fa: 'B', sol: 'C#', la: 'D#', ti: 'E#' },
+            'C#': { do: 'C#', re: 'D#', mi: 'E#', fa: 'F#', sol: 'G#', la: 'A#', ti: 'B#' },
             'F':  { do: 'F', re: 'G', mi: 'A', fa: 'Bb', sol: 'C', la: 'D', ti: 'E' },
             'Bb': { do: 'Bb', re: 'C', mi: 'D', fa: 'Eb', sol: 'F', la: 'G', ti: 'A' },
-            'Eb': { do: 'Eb', re: 'F', mi: 'G', fa: 'Ab', sol: 'Bb', la: 'C', ti: 'D' }
-        };
-
-        this.vocalRanges = {
-            'soprano': { min: 60, max: 81, defaultOctave: 5 }, // C4 - A5
-            'alto':    { min: 55, max: 76, defaultOctave: 4 }, // G3 - E5
-            'tenor':   { min: 48, max: 69, defaultOctave: 4 }, // C3 - A4
-            'bass':    { min: 36, max: 60, defaultOctave: 3 }  // C2 - C4
+            'Eb': { do: 'Eb', re: 'F', mi: 'G', fa: 'Ab', sol: 'Bb', la: 'C', ti: 'D' },
+            'Ab': { do: 'Ab', re: 'Bb', mi: 'C', fa: 'Db', sol: 'Eb', la: 'F', ti: 'G' },
+            'Db': { do: 'Db', re: 'Eb', mi: 'F', fa: 'Gb', sol: 'Ab', la: 'Bb', ti: 'C' },
+            'Gb': { do: 'Gb', re: 'Ab', mi: 'Bb', fa: 'Cb', sol: 'Db', la: 'Eb', ti: 'F' },
+            'Cb': { do: 'Cb', re: 'Db', mi: 'Eb', fa: 'Fb', sol: 'Gb', la: 'Ab', ti: 'Bb' }
         };
 
+        // Long forms include the Curwen spellings (doh, ray, me, fah, soh, lah, te), so "me" and "te"
+        // are the natural degrees here and "se"/"le" follow Curwen (raised) rather than the American flats.
+        // prettier-ignore
         this.solfegeVariations = {
             'd': 'do', 'r': 're', 'm': 'mi', 'f': 'fa', 's': 'sol', 'l': 'la', 't': 'ti',
-            'do': 'do', 're': 're', 'mi': 'mi', 'fa': 'fa', 'sol': 'sol', 'so': 'sol', 'la': 'la', 'ti': 'ti', 'si': 'ti'
+            'do': 'do', 'doh': 'do', 're': 're', 'ray': 're', 'mi': 'mi', 'me': 'mi', 'fa': 'fa', 'fah': 'fa',
+            'sol': 'sol', 'so': 'sol', 'soh': 'sol', 'la': 'la', 'lah': 'la', 'ti': 'ti', 'te': 'ti',
+            // Raised degrees
+            'de': 'de', 'di': 'de', 'dee': 'de',
+            'ri': 'ri', 'ree': 'ri',
+            'fe': 'fe', 'fi': 'fe', 'fee': 'fe', 'ba': 'fe',
+            'se': 'se', 'si': 'se', 'see': 'se',
+            'le': 'le', 'li': 'le', 'lee': 'le',
+            // Lowered degrees
+            'ra': 'ra', 'raw': 'ra',
+            'ma': 'ma', 'maw': 'ma',
+            'lo': 'lo', 'law': 'lo',
+            'ta': 'ta', 'taw': 'ta'
+        };
+
+        // prettier-ignore
+        this.chromaticSyllables = {
+            'de': { degree: 'do', alteration: 1 },  'ri': { degree: 're', alteration: 1 },
+            'fe': { degree: 'fa', alteration: 1 },  'se': { degree: 'sol', alteration: 1 },
+            'le': { degree: 'la', alteration: 1 },  'ra': { degree: 're', alteration: -1 },
+            'ma': { degree: 'mi', alteration: -1 }, 'lo': { degree: 'la', alteration: -1 },
+            'ta': { degree: 'ti', alteration: -1 }
         };
     }
     
     public static isSolfege(text: string): boolean {
-        const lowerText = text.toLowerCase();
-        const syllables = ['do', 're', 'mi', 'fa', 'sol', 'la', 'ti', 'd', 'r', 'm', 'f', 's', 'l', 't'];
-        const words = lowerText.split(/\s+/).map(w => w.replace(/[.,;!?'-]/g, ''));
+        const lowerText = text
+            .split('\n')
+            // Comments and lyric lines ("L:", "S.lyrics:") are prose, not syllables.
+            .filter(line => !line.trim().startsWith('//') && !/^(?:L\d*|lyrics?\d*|[a-z]+\.lyrics?\d*)\s*:/i.test(line.trim()))
+            .join('\n')
+            .toLowerCase();
+        const syllables = [
+            'do', 're', 'mi', 'fa', 'sol', 'la', 'ti', 'd', 'r', 'm', 'f', 's', 'l', 't',
+            'doh', 'ray', 'me', 'fah', 'soh', 'lah', 'te',
+            'de', 'di', 'ri', 'fe', 'fi', 'se', 'si', 'le', 'li', 'ra', 'ma', 'lo', 'ta'
+        ];
+        // Rhythm markers (":", ".", "|") separate syllables just like whitespace does.
+        const words = lowerText.split(/[\s:.|]+/).map(w => w.replace(/[,;!?'’_-]/g, '')).filter(w => w);
         
         if (words.length < 3) return false;
 
         let solfegeCount = 0;
         words.forEach(word => {
-            if (syllables.includes(word.replace(/[,']/g, ''))) {
+            if (syllables.includes(word)) {
                 solfegeCount++;
             }
         });
@@ -51,80 +200,376 @@ export class SolfegeParser {
         return (solfegeCount / words.length) > 0.4;
     }
 
-    private detectKey(text: string): { key: string; cleanedText: string } {
-        const keyMatch = text.match(/(?:Doh is|Key:)\s*([A-G][b#]?)/i);
+    /**
+     * Reads a key line such as "Doh is Eb", "Key: F#", "Lah is A" or "Key: Am" and returns the doh
+     * it implies, so lah-mode minors parse exactly like their relative major. Key lines are headers,
+     * so only a line that starts with one of these words counts.
+     */
+    private detectKey(text: string): { key: string; mode: 'major' | 'minor'; cleanedText: string } | null {
+        const lahMatch = text.match(/^\s*Lah\s+is\b\s*([A-G][b#♭♯s]?)/im);
+        const dohMatch = text.match(/^\s*(?:Doh\s+is|Key)\b\s*:?\s*([A-G][b#♭♯s]?)(\s*minor\b|m(?:in)?\b)?/im);
+        const keyMatch = lahMatch || dohMatch;
         if (keyMatch && keyMatch[1]) {
-            const key = keyMatch[1].charAt(0).toUpperCase() + keyMatch[1].slice(1).toLowerCase().replace('s', '#');
-            const cleanedText = text.replace(keyMatch[0], '').trim();
-            if (this.keyMaps[key as keyof typeof this.keyMaps]) {
-                return { key, cleanedText };
+            const mode = lahMatch || (dohMatch && dohMatch[2]) ? 'minor' : 'major';
+            const key = this.resolveKey(keyMatch[1], mode);
+            if (key) {
+                return { key, mode, cleanedText: text.replace(keyMatch[0], '').trim() };
             }
         }
-        return { key: 'C', cleanedText: text };
+        return null;
     }
 
+    // Normalises a key name ("f#", "Bb", "Am") to the doh of its major key, or null if unknown.
+    private resolveKey(name: string, mode: 'major' | 'minor' = 'major'): string | null {
+        let tonic = name.trim();
+        if (/^[A-G][b#]?m$/i.test(tonic)) {
+            tonic = tonic.slice(0, -1);
+            mode = 'minor';
+        }
+        tonic = tonic.charAt(0).toUpperCase() + tonic.slice(1).toLowerCase().replace(/[s♯]/, '#').replace('♭', 'b');
+        const key = mode === 'minor' ? RELATIVE_MAJORS[tonic] : tonic;
+        return key && this.keyMaps[key] ? key : null;
+    }
 
-    parse(solfegeText: string, key = 'C') {
-        const { key: detectedKey, cleanedText } = this.detectKey(solfegeText);
-        const effectiveKey = key || detectedKey;
+    private detectTempo(text: string): { tempo: number; cleanedText: string } {
+        const tempoMatch = text.match(/(?:Tempo|M\.\s?M\.?)\s*[:=]?\s*(\d{2,3})/i);
+        if (tempoMatch && tempoMatch[1]) {
+            return { tempo: Number(tempoMatch[1]), cleanedText: text.replace(tempoMatch[0], '').trim() };
+        }
+        return { tempo: 120, cleanedText: text };
+    }
+
+
+    /**
+     * `key` is the starting key for text without a key line; "Doh is X" lines take precedence,
+     * and one in the middle of a piece changes the key for every line that follows it. A "Layout: SSA"
+     * or "Parts: Piano, Violin" header takes precedence over `layout` in the same way, and with
+     * "Octaves: as written" every note is read in the octave its marks give, without voice leading.
+     * Anything the parser cannot read is reported in `diagnostics` rather than dropped silently.
+     */
+    parse(solfegeText: string, key?: string, layout: VoiceLayout = DEFAULT_VOICE_LAYOUT, format: SolfaInputFormat = 'separate'): ParsedSolfaScore {
+        this.layout = layout;
+        let currentKey = (key && this.resolveKey(key)) || 'C';
+        let openingKey: string | null = null;
+        let currentKeyName: string | undefined;
+        let openingKeyName: string | undefined;
+        let tempo = 120;
+        this.lastNoteByPart = {};
+        this.firstMidiByPart = {};
+        this.octavesAsWritten = false;
+        this.diagnostics = [];
+        this.lastLineByPart = {};
+        let lastMusicPart: string | null = null;
         
-        const lines = cleanedText.split('\n').filter(line => line.trim() && !line.trim().startsWith('//'));
+        const lines: { line: string; key: string; lineNumber: number; column: number; section?: string }[] = [];
+        solfegeText.split('\n').forEach((rawLine, index) => {
+            const tempoMatch = this.detectTempo(rawLine.trim());
+            let line = tempoMatch.cleanedText;
+            if (line !== rawLine.trim()) {
+                tempo = tempoMatch.tempo;
+            }
+            if (line.startsWith('//')) {
+                const section = this.detectSectionMarker(line);
+                if (section) {
+                    lines.push({ line, key: currentKey, lineNumber: index + 1, column: rawLine.indexOf(line) + 1, section });
+                }
+                return;
+            }
+            if (!line) return;
+
+            const layoutHeader = this.detectLayoutHeader(line);
+            if (layoutHeader) {
+                if (layoutHeader.layout) {
+                    this.layout = layoutHeader.layout;
+                } else {
+                    this.diagnostics.push({
+                        line: index + 1, column: rawLine.indexOf(line) + 1, token: line,
+                        message: `Unknown layout "${layoutHeader.name}"; the parts were read as ${this.layout.label}.`,
+                        severity: 'warning'
+                    });
+                }
+                return;
+            }
+            if (/^Octaves\s*:\s*as written$/i.test(line)) {
+                this.octavesAsWritten = true;
+                return;
+            }
+
+            // Lyrics and prefixed music may contain words like "monkey"; they never carry the key.
+            const isPartLine = this.detectLyricIndicator(line) !== null || this.detectPartIndicator(line) !== null;
+            const keyChange = isPartLine ? null : this.detectKey(line);
+            if (keyChange) {
+                currentKey = keyChange.key;
+                currentKeyName = keyChange.mode === 'minor'
+                    ? `${Object.keys(RELATIVE_MAJORS).find(minor => RELATIVE_MAJORS[minor] === keyChange.key)}m`
+                    : keyChange.key;
+                line = keyChange.cleanedText;
+                if (!line) return;
+            }
+            // A title or other heading above the music is not a line of any part.
+            if (!openingKey && !isPartLine && this.isHeadingLine(line)) return;
+            if (!openingKey) {
+                openingKey = currentKey;
+                openingKeyName = currentKeyName;
+            }
+            lines.push({ line, key: currentKey, lineNumber: index + 1, column: rawLine.indexOf(line) + 1 });
+        });
         
-        const parts: Record<string, any[]> = { soprano: [], alto: [], tenor: [], bass: [] };
-        const partOrder = ['soprano', 'alto', 'tenor', 'bass'];
+        layout = this.layout; // as a header may have set it
+        const parts = this.emptyParts();
+        const partOrder = layout.parts.map(voice => voice.id);
         let sequentialPartIndex = 0;
         let lastExplicitPart: string | null = null;
         
-        const linesWithIndicators = lines.map(line => ({ line: line.trim(), match: this.detectPartIndicator(line.trim()) }));
+        const sectionStarts: { name: string; startMeasure: number }[] = [];
+        
+        const addMeasures = (partName: string, measures: SolfaMeasure[]) => {
+            parts[partName].push(...measures);
+            this.lastLineByPart[partName] = { notes: measures.flat(), verses: 0 };
+            lastMusicPart = partName;
+        };
+        // A section starts after the longest part written so far.
+        const startSection = (name: string) => {
+            sectionStarts.push({ name, startMeasure: Math.max(0, ...Object.values(parts).map(p => p.length)) });
+        };
+
+        const linesWithIndicators = lines.map(entry => {
+            const lyric = entry.section ? null : this.detectLyricIndicator(entry.line);
+            return { ...entry, lyric, match: lyric || entry.section ? null : this.detectPartIndicator(entry.line) };
+        });
         const hasAnyExplicitIndicator = linesWithIndicators.some(l => l.match);
+        let isPlaced = true;
 
-        if (hasAnyExplicitIndicator) {
+        if (format !== 'separate') {
+            // Unprefixed lines take the voices in layout order; a prefixed line goes to its own part.
+            // A voice that first enters in a later section rests until then (empty measures become rests below).
+            let sectionStart = 0;
+            const addSectionMeasures = (partName: string, measures: SolfaMeasure[]) => {
+                while (parts[partName].length < sectionStart) parts[partName].push([]);
+                addMeasures(partName, measures);
+            };
+            for (const { line, key: lineKey, lineNumber, column, match, lyric, section } of linesWithIndicators) {
+                if (section) {
+                    startSection(section);
+                    sectionStart = sectionStarts[sectionStarts.length - 1].startMeasure;
+                    sequentialPartIndex = 0;
+                } else if (lyric) {
+                    this.addLyricLine(lyric.part || lastMusicPart, line.substring(lyric.length), lyric.verse, lineNumber, column);
+                } else if (match) {
+                    addSectionMeasures(match.part, this.parseMeasures(line.substring(match.length), lineKey, match.part, lineNumber, column + match.length));
+                    sequentialPartIndex = format === 'mixed' ? 0 : partOrder.indexOf(match.part) + 1;
+                } else {
+                    const partName = partOrder[sequentialPartIndex % partOrder.length];
+                    addSectionMeasures(partName, this.parseMeasures(line, lineKey, partName, lineNumber, column));
+                    sequentialPartIndex++;
+                }
+            }
+        } else if (hasAnyExplicitIndicator) {
             // Mode 1: At least one line has "S:", "A:", etc. Process explicitly.
-            for (const { line, match } of linesWithIndicators) {
-                if (match) {
+            for (const { line, key: lineKey, lineNumber, column, match, lyric, section } of linesWithIndicators) {
+                if (section) {
+                    startSection(section);
+                } else if (lyric) {
+                    this.addLyricLine(lyric.part || lastMusicPart, line.substring(lyric.length), lyric.verse, lineNumber, column);
+                } else if (match) {
                     lastExplicitPart = match.part;
-                    const musicLine = line.substring(match.length).trim();
-                    const measures = this.parseMeasures(musicLine, effectiveKey, lastExplicitPart);
-                    parts[lastExplicitPart].push(...measures);
+                    const musicLine = line.substring(match.length);
+                    addMeasures(lastExplicitPart, this.parseMeasures(musicLine, lineKey, lastExplicitPart, lineNumber, column + match.length));
                 } else if (lastExplicitPart) {
                     // This line has no indicator, so it's a continuation of the previous part.
-                    const measures = this.parseMeasures(line, effectiveKey, lastExplicitPart);
-                    parts[lastExplicitPart].push(...measures);
+                    addMeasures(lastExplicitPart, this.parseMeasures(line, lineKey, lastExplicitPart, lineNumber, column));
+                } else {
+                    isPlaced = false;
+                    this.diagnostics.push({
+                        line: lineNumber, column, token: line,
+                        message: 'Line ignored: it comes before the first part indicator (e.g. "S:").',
+                        severity: 'warning'
+                    });
                 }
             }
         } else {
-            // Mode 2: No explicit indicators found. Assume vertical alignment (S, A, T, B order).
-            for (const line of lines) {
-                const partName = partOrder[sequentialPartIndex % 4];
-                const measures = this.parseMeasures(line.trim(), effectiveKey, partName);
-                parts[partName].push(...measures);
+            // Mode 2: No explicit indicators found. Assume vertical alignment, one line per voice in layout order.
+            for (const { line, key: lineKey, lineNumber, column, lyric, section } of linesWithIndicators) {
+                if (section) {
+                    startSection(section);
+                    continue;
+                }
+                if (lyric) {
+                    // Lyrics sit under the line they belong to, so they don't take a voice's turn.
+                    this.addLyricLine(lyric.part || lastMusicPart, line.substring(lyric.length), lyric.verse, lineNumber, column);
+                    continue;
+                }
+                const partName = partOrder[sequentialPartIndex % partOrder.length];
+                addMeasures(partName, this.parseMeasures(line, lineKey, partName, lineNumber, column));
                 sequentialPartIndex++;
             }
         }
 
-        const measureCount = Math.max(0, ...Object.values(parts).map((p: any) => p.length));
-        return this.alignMeasures(parts, measureCount);
+        const measureCount = Math.max(0, ...Object.values(parts).map(p => p.length));
+        // Voices that were written at all should be written throughout; a short one means lines went to the wrong part.
+        const shortParts = layout.parts.filter(voice => parts[voice.id].length > 0 && parts[voice.id].length < measureCount);
+        if (shortParts.length > 0) {
+            isPlaced = false;
+            this.diagnostics.push({
+                line: 1, column: 1, token: '',
+                message: `${shortParts.map(voice => `${voice.name} has ${parts[voice.id].length}`).join(', ')} of ${measureCount} measures; check the part prefixes or the input format.`,
+                severity: 'warning'
+            });
+        }
+        // The converter writes each note as tied note values; a length none add up to can't be written at all.
+        Object.values(parts).flat(2).filter(note => beatsToNoteValues(note.beats).length === 0).forEach(note => {
+            this.diagnostics.push({
+                line: note.source?.line ?? 1, column: note.source?.column ?? 1, token: note.source ? note.solfege : '',
+                message: `A ${note.isRest ? 'rest' : 'note'} of ${+note.beats.toFixed(3)} beats can't be written with note values, even tied; it was left out.`,
+                severity: 'error'
+            });
+        });
+        const beatsPerMeasure = this.detectBeatsPerMeasure(parts);
+        return {
+            key: openingKey || currentKey,
+            keyName: openingKey ? openingKeyName : currentKeyName,
+            layout,
+            tempo,
+            beatsPerMeasure,
+            parts: this.alignMeasures(parts, measureCount, beatsPerMeasure),
+            sections: this.toSections(sectionStarts, measureCount),
+            diagnostics: this.diagnostics,
+            isPlaced
+        };
+    }
+
+    /**
+     * Parses solfege text into the app's `ParsedMusic` structure without any AI involvement.
+     * Durations come from the beat markers, tempo from a "Tempo: 96" header (120 otherwise),
+     * and the time signature from the most common number of beats per measure.
+     */
+    parseToMusic(solfegeText: string, key?: string, layout?: VoiceLayout, format?: SolfaInputFormat): ParsedMusic {
+        return solfaScoreToParsedMusic(this.parse(solfegeText, key, layout, format));
+    }
+
+    private detectBeatsPerMeasure(parts: Record<string, SolfaMeasure[]>): number {
+        const counts: Record<number, number> = {};
+        for (const measures of Object.values(parts)) {
+            for (const measure of measures) {
+                const beats = Math.round(measure.reduce((total, note) => total + note.beats, 0));
+                if (beats > 0) {
+                    counts[beats] = (counts[beats] || 0) + 1;
+                }
+            }
+        }
+        const [mostCommon] = Object.entries(counts).sort((a, b) => b[1] - a[1]);
+        return mostCommon ? Number(mostCommon[0]) : 4;
+    }
+
+    /**
+     * Recognises lyric lines: "L:" (capital L, since a lowercase "l:" is lah), "L2:" for a numbered verse,
+     * and part-specific forms such as "S.lyrics:" or "Alto.lyrics2:" using any alias of the layout.
+     */
+    private detectLyricIndicator(line: string): { part: string | null; verse: number | null; length: number } | null {
+        const partMatch = line.match(/^([a-z][a-z0-9 ]*?)\.lyrics?(\d*)\s*:/i);
+        if (partMatch) {
+            const indicator = this.detectPartIndicator(`${partMatch[1]}:`);
+            return { part: indicator ? indicator.part : null, verse: partMatch[2] ? Number(partMatch[2]) : null, length: partMatch[0].length };
+        }
+        const plainMatch = line.match(/^(?:L|lyrics?)(\d*)\s*:/);
+        if (plainMatch) {
+            return { part: null, verse: plainMatch[1] ? Number(plainMatch[1]) : null, length: plainMatch[0].length };
+        }
+        return null;
+    }
+
+    /**
+     * Lines up a lyric line with the notes of the part's most recent music line, one syllable per
+     * sung note. Hyphens split words into syllables ("A-maz-ing") and "_" holds a syllable over a note.
+     * Unnumbered lyric lines under the same music line are successive verses.
+     */
+    private addLyricLine(part: string | null, text: string, verse: number | null, lineNumber: number, column: number) {
+        const musicLine = part ? this.lastLineByPart[part] : undefined;
+        if (!part || !musicLine) {
+            this.diagnostics.push({
+                line: lineNumber, column, token: text.trim(),
+                message: 'Lyrics ignored: there is no music line above them for that part.',
+                severity: 'warning'
+            });
+            return;
+        }
+
+        const verseIndex = (verse || musicLine.verses + 1) - 1;
+        musicLine.verses = verseIndex + 1;
+
+        const syllables = text.trim().split(/\s+/).filter(word => word).flatMap(word =>
+            word.split(/(?<=-)/).filter(syllable => syllable)
+        );
+        const sungNotes = musicLine.notes.filter(note => !note.isRest && !note.isContinuation);
+
+        sungNotes.forEach((note, index) => {
+            const syllable = syllables[index];
+            if (!syllable || syllable === '_') return;
+            note.lyric = note.lyric || [];
+            note.lyric[verseIndex] = syllable;
+        });
+
+        if (syllables.length > sungNotes.length) {
+            this.diagnostics.push({
+                line: lineNumber, column, token: syllables.slice(sungNotes.length).join(' '),
+                message: `${syllables.length - sungNotes.length} more lyric syllable(s) than notes in the line above.`,
+                severity: 'warning'
+            });
+        }
+    }
+
+    /**
+     * Reads a section comment such as "// Verse 1", "// Chorus" or "// Refrain:" and returns its label.
+     * Other comments are ignored, so a sentence that merely mentions the chorus is not a section.
+     */
+    private detectSectionMarker(line: string): string | null {
+        const match = line.match(/^\/\/\s*((?:Verse|Chorus|Refrain|Pre-?Chorus|Bridge|Intro|Outro|Interlude|Coda|Tag)(?:\s*\d+)?(?:\s*\(\d+\))?)\s*:?\s*$/i);
+        return match ? match[1].replace(/\s+/g, ' ') : null;
+    }
+
+    // Each section runs until the next one starts; markers with no music between them are dropped,
+    // and a repeated label ("Chorus" again) is numbered so every section can be picked by name.
+    private toSections(starts: { name: string; startMeasure: number }[], measureCount: number): Section[] {
+        const seen: Record<string, number> = {};
+        return starts
+            .map((start, index) => ({ ...start, endMeasure: starts[index + 1]?.startMeasure ?? measureCount }))
+            .filter(section => section.endMeasure > section.startMeasure)
+            .map(section => {
+                const count = seen[section.name.toLowerCase()] = (seen[section.name.toLowerCase()] || 0) + 1;
+                return count > 1 ? { ...section, name: `${section.name} (${count})` } : section;
+            });
+    }
+
+    // "Layout: SATB" picks a built-in layout; "Parts: Piano, Violin" names the parts of a custom one.
+    private detectLayoutHeader(line: string): { name: string; layout: VoiceLayout | null } | null {
+        const layoutMatch = line.match(/^Layout\s*:\s*(.+)$/i);
+        if (layoutMatch) {
+            return { name: layoutMatch[1].trim(), layout: findVoiceLayout(layoutMatch[1]) || null };
+        }
+        const partsMatch = line.match(/^Parts\s*:\s*(.+)$/i);
+        if (partsMatch) {
+            const names = partsMatch[1].split(',').map(name => name.trim()).filter(Boolean);
+            return { name: partsMatch[1].trim(), layout: names.length > 0 ? customVoiceLayout(names) : null };
+        }
+        return null;
     }
 
     private detectPartIndicator(line: string): { part: string, length: number } | null {
-        const partPatterns: Record<string, RegExp> = {
-            'soprano': /^(soprano|sop|s)[\s.:]+/i,
-            'alto':    /^(alto|alt|a)[\s.:]+/i,
-            'tenor':   /^(tenor|ten|t)[\s.:]+/i,
-            'bass':    /^(bass|bas|b)[\s.:]+/i
-        };
+        // Longest aliases first, so "S1:" isn't read as "S" followed by a stray "1".
+        const aliases = this.layout.parts
+            .flatMap(voice => voice.aliases.map(alias => ({ alias, part: voice.id })))
+            .sort((a, b) => b.alias.length - a.alias.length);
 
-        for (const [part, pattern] of Object.entries(partPatterns)) {
-            const match = line.match(pattern);
+        for (const { alias, part } of aliases) {
+            // Only one separator belongs to the indicator; a line may start with empty (rest) beats.
+            const pattern = alias.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/ /g, '\\s*');
+            const match = line.match(new RegExp(`^(${pattern})(\\s*[.:]\\s*|\\s+)`, 'i'));
             if (match) {
                 const indicator = match[1] || '';
-                // Heuristic: If the indicator is a single letter 's' or 't' (which are also notes),
-                // and it is NOT followed by a colon, we assume it's a note to prevent ambiguity.
-                // e.g., "s l t" is a melody, but "s: l t" is Soprano part.
-                if (indicator.length === 1 && ['s', 't'].includes(indicator.toLowerCase())) {
-                    if (!match[0].includes(':')) {
-                        return null; // Ambiguous case, treat as a note line.
-                    }
+                // A single letter that is also a note (like 's' or 't') is a prefix only with the colon
+                // attached: "S: l t" is the Soprano part, but "s l t" and "s :l :t" are music.
+                if (indicator.length === 1 && this.solfegeVariations[indicator.toLowerCase()] && !match[2].startsWith(':')) {
+                    return null;
                 }
                 return { part: part, length: match[0].length };
             }
@@ -132,12 +577,12 @@ export class SolfegeParser {
         return null;
     }
 
-    private parseMeasures(line: string, key: string, part: string) {
-        const measureStrings = line.split('|').filter(m => m.trim());
-        const measures = [];
+    private parseMeasures(line: string, key: string, part: string, lineNumber: number, column: number): SolfaMeasure[] {
+        const measureStrings = this.splitWithColumns(line, /\|/g, column).filter(m => m.text);
+        const measures: SolfaMeasure[] = [];
 
         for (const measureStr of measureStrings) {
-            const notes = this.parseMeasure(measureStr.trim(), key, part);
+            const notes = this.parseMeasure(measureStr.text, key, part, lineNumber, measureStr.column);
             if (notes.length > 0) {
                 measures.push(notes);
             }
@@ -145,21 +590,104 @@ export class SolfegeParser {
         return measures;
     }
 
-    private parseMeasure(measureStr: string, key: string, part: string) {
-        const tokens = measureStr.split(/[\s.:]+/).filter(token => token.trim());
-        const notes = [];
+    /**
+     * Splits a measure into beats and each beat into its subdivisions.
+     * Beats are separated by ":" (or by whitespace when a measure has no colons),
+     * "." halves a beat, ".," gives a dotted (three-quarter + quarter) division,
+     * "-" sustains the previous note and an empty beat or subdivision is a rest.
+     */
+    /** A line counts as a heading when at most half of its words are sol-fa syllables, e.g. "Amazing Grace". */
+    private isHeadingLine(line: string): boolean {
+        const words = line.toLowerCase().split(/[\s:.|]+/).map(word => word.replace(/['’,_;!?-]/g, '')).filter(word => word);
+        const syllableCount = words.filter(word => Object.prototype.hasOwnProperty.call(this.solfegeVariations, word)).length;
+        return words.length > 0 && syllableCount <= words.length / 2;
+    }
+
+    private parseMeasure(measureStr: string, key: string, part: string, lineNumber: number, column: number): SolfaMeasure {
+        const beatStrings = this.splitWithColumns(measureStr, measureStr.includes(':') ? /:/g : /\s+/g, column);
+        const notes: SolfaMeasure = [];
         const keyMapping = this.keyMaps[key] || this.keyMaps['C'];
 
-        for (const token of tokens) {
-            const noteData = this.parseNoteToken(token, keyMapping, part);
-            if (noteData) {
-                notes.push(noteData);
+        for (const beatStr of beatStrings) {
+            for (const { token, beats, column: tokenColumn } of this.splitBeat(beatStr.text, beatStr.column)) {
+                const noteCount = notes.length;
+                if (!token) {
+                    notes.push(this.createRest(part, beats));
+                } else if (token === '-') {
+                    this.sustain(notes, part, beats);
+                } else {
+                    const noteData = this.parseNoteToken(token, keyMapping, part);
+                    if (noteData) {
+                        notes.push({ ...noteData, beats });
+                        this.lastNoteByPart[part] = noteData;
+                        this.firstMidiByPart[part] ??= noteData.midiNumber;
+                    } else {
+                        // Keep the beat so one typo doesn't shorten the measure.
+                        notes.push(this.createRest(part, beats));
+                        this.diagnostics.push({
+                            line: lineNumber, column: tokenColumn, token,
+                            message: `Unrecognised sol-fa syllable "${token}"; it was read as a rest.`,
+                            severity: 'error'
+                        });
+                    }
+                }
+                // A "-" that only lengthens the note before it leaves that note's source alone.
+                if (token && notes.length > noteCount) {
+                    notes[notes.length - 1].source = { line: lineNumber, column: tokenColumn, length: token.length };
+                }
             }
         }
         return notes;
     }
 
-    private parseNoteToken(token: string, keyMapping: Record<string, string>, part: string) {
+    private splitBeat(beatStr: string, column: number): { token: string; beats: number; column: number }[] {
+        if (!beatStr) {
+            return [{ token: '', beats: 1, column }];
+        }
+        // An empty subdivision (".r", "d.") is a rest for that part of the beat.
+        const segments = this.splitWithColumns(beatStr, /\s*\.\s*|\s+/g, column);
+        if (segments.length === 2 && segments[1].text.startsWith(',')) {
+            return [
+                { token: segments[0].text, beats: 0.75, column: segments[0].column },
+                { token: segments[1].text.slice(1), beats: 0.25, column: segments[1].column + 1 },
+            ];
+        }
+        return segments.map(segment => ({ token: segment.text, beats: 1 / segments.length, column: segment.column }));
+    }
+
+    // Like String.split, but each piece is trimmed and keeps the column where it starts in the source line.
+    private splitWithColumns(text: string, separator: RegExp, column: number): { text: string; column: number }[] {
+        const pieces: { text: string; column: number }[] = [];
+        let start = 0;
+        const addPiece = (end: number) => {
+            const raw = text.slice(start, end);
+            pieces.push({ text: raw.trim(), column: column + start + (raw.length - raw.trimStart().length) });
+        };
+        for (const match of text.matchAll(separator)) {
+            addPiece(match.index!);
+            start = match.index! + match[0].length;
+        }
+        addPiece(text.length);
+        return pieces;
+    }
+
+    private sustain(notes: SolfaMeasure, part: string, beats: number) {
+        const previous = notes[notes.length - 1];
+        if (previous) {
+            previous.beats += beats;
+        } else if (this.lastNoteByPart[part]) {
+            // A sustain at the start of a measure carries the last note of the previous measure over the barline.
+            notes.push({ ...this.lastNoteByPart[part], beats, isContinuation: true });
+        } else {
+            notes.push(this.createRest(part, beats));
+        }
+    }
+
+    private createRest(part: string, beats: number): SolfaNote {
+        return { solfege: 'rest', noteName: 'R', midiNumber: null, part: part, isRest: true, beats };
+    }
+
+    private parseNoteToken(token: string, keyMapping: Record<string, string>, part: string): SolfaPitch | null {
         if (!token) return null;
         let cleanToken = token.toLowerCase();
         let octaveShift = 0;
@@ -174,87 +702,122 @@ export class SolfegeParser {
         }
         
         const normalizedSolfege = this.solfegeVariations[cleanToken];
-        if (!keyMapping[normalizedSolfege]) {
+        const noteName = this.resolveNoteName(normalizedSolfege, keyMapping);
+        if (!noteName) {
             return null;
         }
 
-        const noteName = keyMapping[normalizedSolfege];
-        const midiNote = this.solfegeToMidiNote(normalizedSolfege, keyMapping, part, octaveShift);
+        const hasOctaveMark = cleanToken.length < token.length;
+        const midiNote = this.solfegeToMidiNote(noteName, keyMapping, part, octaveShift, hasOctaveMark);
 
         return {
             solfege: normalizedSolfege,
             noteName: noteName,
             midiNumber: midiNote,
             part: part,
-            octave: Math.floor(midiNote / 12) - 1
+            octave: this.spelledOctave(noteName, midiNote),
+            isChromatic: normalizedSolfege in this.chromaticSyllables
         };
     }
 
-    private solfegeToMidiNote(solfege: string, keyMapping: Record<string, string>, part: string, octaveShift: number) {
-        const noteName = keyMapping[solfege];
-        const range = this.vocalRanges[part] || this.vocalRanges.soprano;
-        const baseMidi = this.findOptimalMidi(noteName, range);
-        return baseMidi + (octaveShift * 12);
+    /**
+     * Spells a syllable in the given key. Chromatic syllables are spelled from their scale degree,
+     * so "fe" in F is B natural and "ta" in C is Bb, rather than being looked up enharmonically.
+     */
+    private resolveNoteName(solfege: string | undefined, keyMapping: Record<string, string>): string | null {
+        if (!solfege) return null;
+        if (keyMapping[solfege]) return keyMapping[solfege];
+
+        const chromatic = this.chromaticSyllables[solfege];
+        if (!chromatic) return null;
+
+        let noteName = keyMapping[chromatic.degree];
+        if (chromatic.alteration > 0) {
+            noteName = noteName.endsWith('b') ? noteName.slice(0, -1) : `${noteName}#`;
+        } else {
+            noteName = noteName.endsWith('#') ? noteName.slice(0, -1) : `${noteName}b`;
+        }
+        return noteName;
     }
-    
-    private findOptimalMidi(noteName: string, range: { min: number; max: number; defaultOctave: number }): number {
-        const pitchClassToMidiOffset: Record<string, number> = { 'C': 0, 'C#': 1, 'Db': 1, 'D': 2, 'D#': 3, 'Eb': 3, 'E': 4, 'F': 5, 'F#': 6, 'Gb': 6, 'G': 7, 'G#': 8, 'Ab': 8, 'A': 9, 'A#': 10, 'Bb': 10, 'B': 11 };
-        const noteIndex = pitchClassToMidiOffset[noteName];
-
-        for (let octave = 2; octave <= 6; octave++) {
-            const midiNote = 12 * (octave + 1) + noteIndex;
-            if (midiNote >= range.min && midiNote <= range.max) {
-                return midiNote;
+
+    // The octave belongs to the letter name, so B#3 and C4 share a MIDI number.
+    private spelledOctave(noteName: string, midiNote: number): number {
+        return Math.floor((midiNote - pitchOffset(noteName) + LETTER_OFFSETS[noteName.charAt(0)]) / 12) - 1;
+    }
+
+    /**
+     * Places a note in an octave. Marked notes (d', t,) are written relative to the part's doh and are
+     * taken literally, and a cancelled pair (d,') pins a note to the doh octave itself; unmarked notes
+     * move to whichever octave is closest to the part's previous note. A part's first unmarked note
+     * starts from the doh octave, in the middle of the range, and drops an octave while it would sit
+     * above the first note of the part over it, so the voices enter in order.
+     */
+    private solfegeToMidiNote(noteName: string, keyMapping: Record<string, string>, part: string, octaveShift: number, hasOctaveMark: boolean) {
+        const voice = this.layout.parts.find(candidate => candidate.id === part) || this.layout.parts[0];
+        const semitonesAboveDoh = (((pitchOffset(noteName) - pitchOffset(keyMapping.do)) % 12) + 12) % 12;
+        const writtenMidi = dohMidiInRange(keyMapping.do, voice.range) + semitonesAboveDoh + (octaveShift * 12);
+        if (hasOctaveMark || this.octavesAsWritten) {
+            return writtenMidi;
+        }
+        const previousMidi = this.lastNoteByPart[part]?.midiNumber ?? null;
+        let midiNote = nearestOctaveInRange(writtenMidi, previousMidi, voice.range);
+        if (previousMidi === null) {
+            const partAbove = this.layout.parts.slice(0, this.layout.parts.indexOf(voice)).reverse()
+                .find(candidate => this.firstMidiByPart[candidate.id] !== undefined);
+            const ceiling = partAbove ? this.firstMidiByPart[partAbove.id] : Infinity;
+            while (midiNote > ceiling && midiNote - 12 >= voice.range.min) {
+                midiNote -= 12;
             }
         }
-        
-        return 12 * (range.defaultOctave + 1) + noteIndex;
+        return midiNote;
     }
 
-    private alignMeasures(parts: any, measureCount: number) {
-        const alignedParts: any = { soprano: [], alto: [], tenor: [], bass: [] };
+    private alignMeasures(parts: Record<string, SolfaMeasure[]>, measureCount: number, beatsPerMeasure: number): Record<string, SolfaMeasure[]> {
+        const alignedParts = this.emptyParts();
 
         for (const [partName, measures] of Object.entries(parts)) {
             for (let i = 0; i < measureCount; i++) {
-                if (i < (measures as any[]).length) {
-                    alignedParts[partName].push((measures as any[])[i]);
+                if (i < measures.length && measures[i].length > 0) {
+                    alignedParts[partName].push(measures[i]);
                 } else {
-                    alignedParts[partName].push([{ solfege: 'rest', noteName: 'R', midiNumber: null, part: partName, isRest: true }]);
+                    alignedParts[partName].push([this.createRest(partName, beatsPerMeasure)]);
                 }
             }
         }
         return alignedParts;
     }
+
+    private emptyParts(): Record<string, SolfaMeasure[]> {
+        return Object.fromEntries(this.layout.parts.map(voice => [voice.id, [] as SolfaMeasure[]]));
+    }
     
-    public static preProcessForAI(solfegeText: string): string {
+    public static preProcessForAI(solfegeText: string, layout: VoiceLayout = DEFAULT_VOICE_LAYOUT): string {
         // This method can be simplified now that the main app doesn't rely on it for SATB parsing,
         // but it's kept for potential direct use by the AI service.
         const parser = new SolfegeParser();
-        const { key } = parser.detectKey(solfegeText);
-        const parsedData = parser.parse(solfegeText, key);
+        const detectedKey = parser.detectKey(solfegeText);
+        const key = detectedKey ? detectedKey.key : 'C';
+        const keyDescription = detectedKey?.mode === 'minor' ? `${key} Major (a minor piece written in lah-mode)` : `${key} Major`;
+        const { parts: parsedData } = parser.parse(solfegeText, key, layout);
 
-        const hasContent = Object.values(parsedData).some((p: any) => p.length > 0 && p[0][0]?.isRest !== true);
+        const hasContent = Object.values(parsedData).some(p => p.length > 0 && p[0][0]?.isRest !== true);
         if(!hasContent) {
-             return `This appears to be Tonic Sol-fa notation in the key of ${key} Major. Please parse it. Original Text: "${solfegeText}"`;
+             return `This appears to be Tonic Sol-fa notation in the key of ${keyDescription}. Please parse it. Original Text: "${solfegeText}"`;
         }
         
-        const formatPart = (part: any[]) => part.map(measure => measure.map(note => `${note.noteName}${note.octave}`).join(' ')).join(' | ');
+        const formatPart = (part: SolfaMeasure[]) => part.map(measure => measure.map(note => `${note.noteName}${note.octave}`).join(' ')).join(' | ');
 
-        const processedSoprano = formatPart(parsedData.soprano);
-        const processedAlto = formatPart(parsedData.alto);
-        const processedTenor = formatPart(parsedData.tenor);
-        const processedBass = formatPart(parsedData.bass);
+        const processedParts = layout.parts
+            .map(voice => `${voice.name}: ${formatPart(parsedData[voice.id]) || 'N/A'}`)
+            .join('\n');
 
         const prompt = `
-This is pre-processed SATB (Soprano, Alto, Tenor, Bass) Tonic Sol-fa notation.
-Key: ${key} Major.
+This is pre-processed ${layout.label} (${layout.parts.map(voice => voice.name).join(', ')}) Tonic Sol-fa notation.
+Key: ${keyDescription}.
 The solfege syllables have been converted into specific scientific pitch notations based on standard vocal ranges for each part. Your main task is to determine the RHYTHM and DURATION of these notes by analyzing the formatting of the original notation provided below. The pitches are already calculated for you.
 
 Pre-processed Pitches:
-Soprano: ${processedSoprano || 'N/A'}
-Alto: ${processedAlto || 'N/A'}
-Tenor: ${processedTenor || 'N/A'}
-Bass: ${processedBass || 'N/A'}
+${processedParts}
 
 ---
 Analyze the following original notation to determine the durations (whole, half, quarter, etc.) for the pitches listed above. Pay attention to colons, periods, bars, and spacing.
@@ -1,20 +1,26 @@
 
-import { ParsedMusic, Note } from '../types';
+import { ParsedMusic } from '../types';
+import { noteStarts, soundingNotes, totalBeats } from './noteDurations';
+import { MixSettings, PartVoice, applyStrip, createPartVoice, disposePartVoice, isAudible, stripFor } from './mixer';
 
 declare const Tone: any;
 
-const DURATION_TO_TONE: Record<Note['duration'], string> = {
-    'whole': '1n',
-    'half': '2n',
-    'quarter': '4n',
-    'eighth': '8n',
-    'sixteenth': '16n',
-};
+/** Where playback has got to in one part: the note that has just started. */
+export interface PlaybackPosition {
+    partName: string;
+    measureIndex: number; // in the whole score, also when only a section is played
+    noteIndex: number; // within the measure's notes
+    time: number; // seconds since playback started
+}
+
+export type PlaybackPositionListener = (position: PlaybackPosition) => void;
 
 export class SoundEngine {
-    private synth: any | null = null;
+    private voices = new Map<string, PartVoice>(); // by part name, for the parts of the current playback
+    private mix: MixSettings = {};
     private isInitialized: boolean = false;
     private onEndedCallback: (() => void) | null = null;
+    private onPositionCallback: PlaybackPositionListener | null = null;
 
     constructor() {
         // Defer initialization to first user interaction to comply with browser audio policies.
@@ -24,9 +30,8 @@ export class SoundEngine {
         if (this.isInitialized || typeof Tone === 'undefined') return;
         try {
             await Tone.start();
-            this.synth = new Tone.PolySynth(Tone.Synth).toDestination();
             this.isInitialized = true;
-            console.log("Audio context started and synth initialized.");
+            console.log("Audio context started.");
 
             // The 'stop' event fires when the transport is stopped, either manually or at the end of the schedule.
             Tone.Transport.on('stop', () => {
@@ -40,12 +45,13 @@ export class SoundEngine {
         }
     }
 
-    async play(music: ParsedMusic, tempo: number, onEnded: () => void, targetPartName?: string) {
+    /** Plays the chosen part (or all of them), optionally just the measures of one named section. */
+    async play(music: ParsedMusic, tempo: number, onEnded: () => void, targetPartName?: string, sectionName?: string, mix: MixSettings = this.mix) {
         if (!this.isInitialized) {
             await this.initialize();
         }
 
-        if (!this.isInitialized || !this.synth) {
+        if (!this.isInitialized) {
             console.error("SoundEngine not initialized. Cannot play music.");
             onEnded();
             return;
@@ -53,6 +59,9 @@ export class SoundEngine {
 
         this.stop(); 
         this.onEndedCallback = onEnded;
+        this.voices.forEach(disposePartVoice);
+        this.voices.clear();
+        this.mix = mix;
 
         Tone.Transport.bpm.value = tempo;
 
@@ -65,13 +74,27 @@ export class SoundEngine {
             return;
         }
 
+        const section = sectionName && sectionName.toLowerCase() !== 'all'
+            ? music.sections?.find(s => s.name.toLowerCase() === sectionName.toLowerCase())
+            : undefined;
+
         let maxDuration = 0;
+        const secondsPerBeat = 60 / tempo;
+
+        // Position events are drawn on the animation frame nearest to when their note sounds.
+        const cursor = new Tone.Part((time: any, position: PlaybackPosition) => {
+            Tone.Draw.schedule(() => this.onPositionCallback?.(position), time);
+        }, []).start(0);
 
         partsToPlay.forEach(partData => {
-            const notes = partData.measures.flatMap(m => m.notes);
+            const voice = createPartVoice();
+            this.voices.set(partData.partName, voice);
+
+            const measures = section ? partData.measures.slice(section.startMeasure, section.endMeasure) : partData.measures;
+            const notes = measures.flatMap(m => m.notes);
             const part = new Tone.Part((time: any, value: any) => {
                 if (value.pitch !== 'rest') {
-                    this.synth.triggerAttackRelease(
+                    voice.synth.triggerAttackRelease(
                         value.pitch, 
                         value.duration, 
                         time
@@ -79,18 +102,24 @@ export class SoundEngine {
                 }
             }, []).start(0);
 
-            let currentTime = 0;
-            notes.forEach(note => {
-                const toneDuration = DURATION_TO_TONE[note.duration];
-                part.add(currentTime, { pitch: note.pitch, duration: toneDuration });
-                currentTime += Tone.Time(toneDuration).toSeconds();
+            // Times are in seconds at the playback tempo, so dotted, tuplet and tied lengths need no Tone notation.
+            soundingNotes(notes).forEach(note => {
+                part.add(note.startBeat * secondsPerBeat, { pitch: note.pitch, duration: note.beats * secondsPerBeat });
+            });
+
+            noteStarts(measures).forEach(({ measureIndex, noteIndex, startBeat }) => {
+                const time = startBeat * secondsPerBeat;
+                cursor.add(time, { partName: partData.partName, measureIndex: measureIndex + (section?.startMeasure ?? 0), noteIndex, time });
             });
 
-            if (currentTime > maxDuration) {
-                maxDuration = currentTime;
+            const partDuration = totalBeats(notes) * secondsPerBeat;
+            if (partDuration > maxDuration) {
+                maxDuration = partDuration;
             }
         });
 
+        this.applyMix();
+
         // Schedule the transport to stop after the longest part has finished playing.
         Tone.Transport.scheduleOnce(() => {
             this.stop(false); // don't call onEnded manually, let the event handle it
@@ -104,8 +133,23 @@ export class SoundEngine {
         
         Tone.Transport.stop();
         Tone.Transport.cancel();
-        if (this.synth?.releaseAll) {
-            this.synth.releaseAll();
-        }
+        Tone.Draw.cancel(); // position events still waiting for their animation frame
+        this.voices.forEach(voice => voice.synth.releaseAll());
+    }
+
+    /** Listens for playback positions, one as each written note of each playing part starts. */
+    setPositionListener(listener: PlaybackPositionListener | null) {
+        this.onPositionCallback = listener;
+    }
+
+    /** Changes the mix, taking effect at once if something is playing. */
+    setMix(mix: MixSettings) {
+        this.mix = mix;
+        this.applyMix();
+    }
+
+    private applyMix() {
+        const partNames = Array.from(this.voices.keys());
+        this.voices.forEach((voice, partName) => applyStrip(voice, stripFor(this.mix, partName), isAudible(this.mix, partName, partNames)));
     }
 }
@@ -0,0 +1,55 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ParsedMusic } from '../types';
+import { CacheEntry, TranscriptionCache, hashCacheKey } from './transcriptionCache';
+import { createGeminiProvider } from './geminiService';
+
+const MUSIC: ParsedMusic = { tempo: 90, timeSignature: '4/4', parts: [{ partName: 'Soprano', measures: [{ notes: [{ pitch: 'C4', duration: 'whole' }] }] }] };
+
+describe('hashCacheKey', () => {
+    it('gives the same key for the same pieces only', async () => {
+        const key = await hashCacheKey('music', 'model', 'C4 D4');
+
+        expect(key).toMatch(/^[0-9a-f]{64}$/);
+        expect(await hashCacheKey('music', 'model', 'C4 D4')).toBe(key);
+        expect(await hashCacheKey('music', 'model', 'C4 E4')).not.toBe(key);
+    });
+
+    it('keeps the boundaries between pieces', async () => {
+        expect(await hashCacheKey('ab', 'c')).not.toBe(await hashCacheKey('a', 'bc'));
+        expect(await hashCacheKey('abc')).toBe(await hashCacheKey(new TextEncoder().encode('abc').buffer));
+    });
+});
+
+describe('TranscriptionCache', () => {
+    it('misses every lookup and drops writes without IndexedDB', async () => {
+        const cache = new TranscriptionCache();
+        await cache.set({ key: 'k', kind: 'music', label: 'Hymn', model: 'm', createdAt: 1, value: MUSIC });
+
+        expect(await cache.get('k')).toBeNull();
+        expect(await cache.list()).toEqual([]);
+    });
+});
+
+describe('cached Gemini requests', () => {
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it('answers from the cache without calling the AI, keyed by the notation', async () => {
+        const fetch = vi.fn(() => Promise.reject(new Error('A cached request must not use the network.')));
+        vi.stubGlobal('fetch', fetch);
+        const cached = { music: MUSIC, repairs: [] };
+        const cache = new TranscriptionCache();
+        const get = vi.spyOn(cache, 'get').mockImplementation(async key => ({ key, kind: 'music', label: '', model: 'm', createdAt: 1, value: cached }) as CacheEntry<any>);
+        const provider = createGeminiProvider('test-key', cache);
+
+        expect(await provider.parseMusic('C4 whole')).toEqual(cached);
+        await provider.parseMusic('C4 whole');
+        await provider.parseMusic('D4 whole');
+
+        const [first, repeated, other] = get.mock.calls.map(([key]) => key);
+        expect(repeated).toBe(first);
+        expect(other).not.toBe(first);
+        expect(fetch).not.toHaveBeenCalled();
+    });
+});
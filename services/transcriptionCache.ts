@@ -0,0 +1,96 @@
+const DB_NAME = 'mark-ii';
+const DB_VERSION = 1;
+const STORE = 'transcriptions';
+
+export interface CacheEntry<T = unknown> {
+    key: string; // SHA-256 of the input, prompt and model
+    kind: 'text' | 'music';
+    label: string; // file name or the first line of the notation, for the inspector
+    model: string;
+    createdAt: number;
+    value: T;
+}
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+/** Hex SHA-256 over the pieces in order; each piece is length-prefixed so boundaries can't shift. */
+export const hashCacheKey = async (...pieces: (string | ArrayBuffer)[]): Promise<string> => {
+    const encoder = new TextEncoder();
+    const chunks = pieces.map(piece => typeof piece === 'string' ? encoder.encode(piece) : new Uint8Array(piece));
+    const total = chunks.reduce((sum, chunk) => sum + 4 + chunk.length, 0);
+    const bytes = new Uint8Array(total);
+    const view = new DataView(bytes.buffer);
+    let offset = 0;
+    for (const chunk of chunks) {
+        view.setUint32(offset, chunk.length);
+        bytes.set(chunk, offset + 4);
+        offset += 4 + chunk.length;
+    }
+    const digest = await crypto.subtle.digest('SHA-256', bytes);
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+/**
+ * Stores AI transcriptions in IndexedDB so re-importing the same photo or text is free.
+ * Where IndexedDB is unavailable (private browsing, tests) every lookup misses and writes are dropped.
+ */
+export class TranscriptionCache {
+    private dbPromise: Promise<IDBDatabase | null> | null = null;
+
+    private open(): Promise<IDBDatabase | null> {
+        if (!this.dbPromise) {
+            this.dbPromise = typeof indexedDB === 'undefined'
+                ? Promise.resolve(null)
+                : new Promise<IDBDatabase | null>(resolve => {
+                    const request = indexedDB.open(DB_NAME, DB_VERSION);
+                    request.onupgradeneeded = () => {
+                        request.result.createObjectStore(STORE, { keyPath: 'key' });
+                    };
+                    request.onsuccess = () => resolve(request.result);
+                    request.onerror = () => {
+                        console.warn('Transcription cache unavailable.', request.error);
+                        resolve(null);
+                    };
+                });
+        }
+        return this.dbPromise;
+    }
+
+    private async withStore<T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>, fallback: T): Promise<T> {
+        const db = await this.open();
+        if (!db) return fallback;
+        try {
+            return await requestToPromise(action(db.transaction(STORE, mode).objectStore(STORE)));
+        } catch (error) {
+            // A broken cache must never stop an import, so failures only cost the cache hit.
+            console.warn('Transcription cache request failed.', error);
+            return fallback;
+        }
+    }
+
+    async get<T>(key: string): Promise<CacheEntry<T> | null> {
+        const entry = await this.withStore<CacheEntry<T> | undefined>('readonly', store => store.get(key), undefined);
+        return entry ?? null;
+    }
+
+    async set<T>(entry: CacheEntry<T>): Promise<void> {
+        await this.withStore<IDBValidKey | undefined>('readwrite', store => store.put(entry), undefined);
+    }
+
+    /** Every entry, newest first. */
+    async list(): Promise<CacheEntry[]> {
+        const entries = await this.withStore<CacheEntry[]>('readonly', store => store.getAll(), []);
+        return entries.sort((a, b) => b.createdAt - a.createdAt);
+    }
+
+    async delete(key: string): Promise<void> {
+        await this.withStore<undefined>('readwrite', store => store.delete(key), undefined);
+    }
+
+    async clear(): Promise<void> {
+        await this.withStore<undefined>('readwrite', store => store.clear(), undefined);
+    }
+}
@@ -0,0 +1,102 @@
+import { ApiError } from '@google/genai';
+
+export type TranscriptionErrorKind =
+    | 'missing-key'
+    | 'invalid-key'
+    | 'rate-limited'
+    | 'timeout'
+    | 'overloaded'
+    | 'bad-response'
+    | 'unsupported-input'
+    | 'cancelled'
+    | 'unknown';
+
+/** Every failure a transcription provider reports, classified so the UI can suggest a remedy. */
+export class TranscriptionError extends Error {
+    constructor(
+        readonly kind: TranscriptionErrorKind,
+        message: string,
+        readonly retryAfterMs?: number, // from the service's retry hint, for 'rate-limited'
+        options?: { cause?: unknown }
+    ) {
+        super(message, options);
+        this.name = 'TranscriptionError';
+    }
+
+    get isRetryable(): boolean {
+        return this.kind === 'overloaded' || this.kind === 'timeout' || this.kind === 'rate-limited';
+    }
+}
+
+// The body Google's APIs send with an error status, e.g. { error: { code: 429, status: 'RESOURCE_EXHAUSTED', details: [...] } }.
+interface GoogleErrorBody {
+    code?: number;
+    message?: string;
+    status?: string;
+    details?: { '@type'?: string; retryDelay?: string; reason?: string }[];
+}
+
+// The SDK puts the JSON error body in the message, sometimes after a "got status: ..." prefix.
+const readErrorBody = (message: string): GoogleErrorBody | null => {
+    const jsonStart = message.indexOf('{');
+    if (jsonStart === -1) return null;
+    try {
+        const parsed = JSON.parse(message.slice(jsonStart));
+        return parsed?.error && typeof parsed.error === 'object' ? parsed.error : null;
+    } catch {
+        return null;
+    }
+};
+
+// "17s" or "1.5s" from a RetryInfo detail, in milliseconds.
+const readRetryAfter = (body: GoogleErrorBody | null): number | undefined => {
+    const retryDelay = body?.details?.find(detail => detail.retryDelay)?.retryDelay;
+    const seconds = retryDelay ? parseFloat(retryDelay) : NaN;
+    return Number.isFinite(seconds) ? Math.round(seconds * 1000) : undefined;
+};
+
+const messageOf = (error: unknown): string => {
+    if (error instanceof Error) return error.message;
+    if (error && typeof error === 'object' && 'message' in error) return String((error as { message: unknown }).message);
+    try {
+        return JSON.stringify(error);
+    } catch {
+        return String(error);
+    }
+};
+
+/**
+ * Classifies anything thrown while talking to a provider: SDK `ApiError`s by HTTP status and
+ * error body, aborts as 'cancelled' and JSON parse failures as 'bad-response'.
+ */
+export const toTranscriptionError = (error: unknown): TranscriptionError => {
+    if (error instanceof TranscriptionError) return error;
+
+    const cause = { cause: error };
+    if (error instanceof Error && error.name === 'AbortError') {
+        return new TranscriptionError('cancelled', 'The request was cancelled.', undefined, cause);
+    }
+    if (error instanceof SyntaxError) {
+        return new TranscriptionError('bad-response', `The AI returned a response that is not valid JSON: ${error.message}`, undefined, cause);
+    }
+
+    const rawMessage = messageOf(error);
+    const body = readErrorBody(rawMessage);
+    const status = error instanceof ApiError ? error.status : body?.code;
+    const message = body?.message || rawMessage;
+    const reasons = [body?.status, ...(body?.details?.map(detail => detail.reason) ?? [])].join(' ');
+
+    if (/API_KEY_INVALID|API key not valid/i.test(`${reasons} ${message}`) || status === 401 || status === 403) {
+        return new TranscriptionError('invalid-key', message, undefined, cause);
+    }
+    if (status === 429 || /RESOURCE_EXHAUSTED/.test(reasons)) {
+        return new TranscriptionError('rate-limited', message, readRetryAfter(body), cause);
+    }
+    if (status === 504 || /DEADLINE_EXCEEDED/.test(reasons)) {
+        return new TranscriptionError('timeout', message, undefined, cause);
+    }
+    if (status === 500 || status === 503 || /UNAVAILABLE/.test(reasons) || /overloaded/i.test(message)) {
+        return new TranscriptionError('overloaded', message, undefined, cause);
+    }
+    return new TranscriptionError('unknown', message, undefined, cause);
+};
@@ -0,0 +1,36 @@
+import { ParsedMusic } from '../types';
+import { MeasureRepair } from './scoreRepair';
+
+export interface RequestOptions {
+    signal?: AbortSignal;
+    bypassCache?: boolean; // ask the backend again even if the answer is cached; the new answer replaces the cached one
+    onProgress?: (progress: TranscriptionProgress) => void;
+}
+
+/** How far a transcription has got, reported as the answer arrives. */
+export interface TranscriptionProgress {
+    partial: ParsedMusic; // the complete measures received so far
+    measuresParsed: number; // in the longest part
+    partName?: string; // the part being written now
+    repairRound?: number; // set while a repair round is arriving
+    page?: number; // 1-based, when a PDF is read page by page
+    pageCount?: number;
+}
+
+export interface TranscriptionResult {
+    music: ParsedMusic;
+    repairs: MeasureRepair[]; // measures changed by repair rounds, empty if the first answer validated
+}
+
+/**
+ * A backend that reads notation for the app: text from a photo or scan, and a structured score
+ * from notation text or straight from the photo or scan. The app only talks to the backend through this interface, and every
+ * failure is thrown as a `TranscriptionError`.
+ */
+export interface TranscriptionProvider {
+    id: string;
+    label: string;
+    extractText(file: File, options?: RequestOptions): Promise<string>;
+    parseMusic(notationText: string, options?: RequestOptions): Promise<TranscriptionResult>;
+    transcribeScore(file: File, options?: RequestOptions): Promise<TranscriptionResult>; // an image or PDF straight to a score
+}
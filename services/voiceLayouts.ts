@@ -0,0 +1,71 @@
+export interface VoicePart {
+    id: string;
+    name: string;
+    aliases: string[]; // line prefixes that select this part, e.g. "s", "sop", "soprano"
+    range: { min: number; max: number; defaultOctave: number }; // MIDI numbers
+}
+
+export interface VoiceLayout {
+    id: string;
+    label: string;
+    parts: VoicePart[]; // in score order, which is also the line order for vertical notation
+}
+
+// prettier-ignore
+const VOICES: Record<string, VoicePart> = {
+    descant:  { id: 'descant',  name: 'Descant',   aliases: ['descant', 'desc', 'dsc'],                    range: { min: 67, max: 88, defaultOctave: 5 } }, // G4 - E6
+    soprano:  { id: 'soprano',  name: 'Soprano',   aliases: ['soprano', 'sop', 's'],                       range: { min: 60, max: 81, defaultOctave: 5 } }, // C4 - A5
+    soprano1: { id: 'soprano1', name: 'Soprano 1', aliases: ['soprano 1', 'soprano1', 'sop1', 's1'],       range: { min: 64, max: 84, defaultOctave: 5 } }, // E4 - C6
+    soprano2: { id: 'soprano2', name: 'Soprano 2', aliases: ['soprano 2', 'soprano2', 'sop2', 's2'],       range: { min: 60, max: 79, defaultOctave: 4 } }, // C4 - G5
+    alto:     { id: 'alto',     name: 'Alto',      aliases: ['alto', 'alt', 'a'],                          range: { min: 55, max: 76, defaultOctave: 4 } }, // G3 - E5
+    alto1:    { id: 'alto1',    name: 'Alto 1',    aliases: ['alto 1', 'alto1', 'alt1', 'a1'],             range: { min: 57, max: 76, defaultOctave: 4 } }, // A3 - E5
+    alto2:    { id: 'alto2',    name: 'Alto 2',    aliases: ['alto 2', 'alto2', 'alt2', 'a2'],             range: { min: 53, max: 72, defaultOctave: 4 } }, // F3 - C5
+    melody:   { id: 'melody',   name: 'Melody',    aliases: ['melody', 'mel', 'unison', 'u'],              range: { min: 55, max: 81, defaultOctave: 4 } }, // G3 - A5
+    tenor:    { id: 'tenor',    name: 'Tenor',     aliases: ['tenor', 'ten', 't'],                         range: { min: 48, max: 69, defaultOctave: 4 } }, // C3 - A4
+    tenor1:   { id: 'tenor1',   name: 'Tenor 1',   aliases: ['tenor 1', 'tenor1', 'ten1', 't1'],           range: { min: 50, max: 69, defaultOctave: 4 } }, // D3 - A4
+    tenor2:   { id: 'tenor2',   name: 'Tenor 2',   aliases: ['tenor 2', 'tenor2', 'ten2', 't2'],           range: { min: 48, max: 67, defaultOctave: 3 } }, // C3 - G4
+    baritone: { id: 'baritone', name: 'Baritone',  aliases: ['baritone', 'bari', 'bar', 'b1'],             range: { min: 43, max: 64, defaultOctave: 3 } }, // G2 - E4
+    bass:     { id: 'bass',     name: 'Bass',      aliases: ['bass', 'bas', 'b'],                          range: { min: 36, max: 60, defaultOctave: 3 } }, // C2 - C4
+    bass1:    { id: 'bass1',    name: 'Bass 1',    aliases: ['bass 1', 'bass1', 'bas1', 'b1'],             range: { min: 41, max: 62, defaultOctave: 3 } }, // F2 - D4
+    bass2:    { id: 'bass2',    name: 'Bass 2',    aliases: ['bass 2', 'bass2', 'bas2', 'b2'],             range: { min: 36, max: 60, defaultOctave: 3 } }  // C2 - C4
+};
+
+// TTBB's lower voices are usually called Baritone and Bass, so they answer to B1/B2 as well.
+const TTBB_BASS: VoicePart = { ...VOICES.bass, aliases: [...VOICES.bass.aliases, 'b2'] };
+
+export const VOICE_LAYOUTS: VoiceLayout[] = [
+    { id: 'satb', label: 'SATB', parts: [VOICES.soprano, VOICES.alto, VOICES.tenor, VOICES.bass] },
+    { id: 'ssa', label: 'SSA', parts: [VOICES.soprano1, VOICES.soprano2, VOICES.alto] },
+    { id: 'ttbb', label: 'TTBB', parts: [VOICES.tenor1, VOICES.tenor2, VOICES.baritone, TTBB_BASS] },
+    {
+        id: 'ssaattbb',
+        label: 'SSAATTBB',
+        parts: [VOICES.soprano1, VOICES.soprano2, VOICES.alto1, VOICES.alto2, VOICES.tenor1, VOICES.tenor2, VOICES.bass1, VOICES.bass2]
+    },
+    { id: 'melody-bass', label: 'Unison melody + bass', parts: [VOICES.melody, VOICES.bass] },
+    { id: 'descant-satb', label: 'Descant + SATB', parts: [VOICES.descant, VOICES.soprano, VOICES.alto, VOICES.tenor, VOICES.bass] }
+];
+
+export const DEFAULT_VOICE_LAYOUT = VOICE_LAYOUTS[0];
+
+export const getVoiceLayout = (id?: string): VoiceLayout => {
+    return VOICE_LAYOUTS.find(layout => layout.id === id) || DEFAULT_VOICE_LAYOUT;
+};
+
+/** A built-in layout by id ("satb") or label ("Unison melody + bass"), as named in a "Layout:" header. */
+export const findVoiceLayout = (name: string): VoiceLayout | undefined => {
+    const wanted = name.trim().toLowerCase();
+    return VOICE_LAYOUTS.find(layout => layout.id === wanted || layout.label.toLowerCase() === wanted);
+};
+
+export const CUSTOM_LAYOUT_ID = 'custom';
+
+// Parts that aren't voices, such as instruments, may sit anywhere on a keyboard.
+const INSTRUMENT_RANGE: VoicePart['range'] = { min: 21, max: 108, defaultOctave: 4 };
+
+/** A layout for parts known only by name, as listed in a "Parts: Piano, Violin" header; each name is its own prefix. */
+export const customVoiceLayout = (names: string[]): VoiceLayout => ({
+    id: CUSTOM_LAYOUT_ID,
+    label: names.join(', '),
+    parts: names.map((name, index) => ({ id: `part${index + 1}`, name, aliases: [name], range: INSTRUMENT_RANGE })),
+});
@@ -0,0 +1,196 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Measure, ParsedMusic } from '../types';
+import { WebMidiEngine, mergeRecording } from './webMidi';
+import { MIDIGenerator } from './midiGenerator';
+
+class FakeOutput {
+    readonly id = 'out-1';
+    readonly name = 'Fake Synth';
+    sent: { bytes: number[]; timestamp?: number }[] = [];
+    send(bytes: number[], timestamp?: number) {
+        this.sent.push({ bytes: [...bytes], timestamp });
+    }
+}
+
+class FakeInput extends EventTarget {
+    readonly id = 'in-1';
+    readonly name = 'Fake Keyboard';
+
+    play(bytes: number[], timeStamp: number) {
+        const event = new Event('midimessage');
+        Object.defineProperty(event, 'data', { value: new Uint8Array(bytes) });
+        Object.defineProperty(event, 'timeStamp', { value: timeStamp });
+        this.dispatchEvent(event);
+    }
+}
+
+const createEngine = () => {
+    const output = new FakeOutput();
+    const input = new FakeInput();
+    const access = { outputs: new Map([[output.id, output]]), inputs: new Map([[input.id, input]]), onstatechange: null };
+    const engine = new WebMidiEngine(async () => access as unknown as MIDIAccess);
+    return { engine, output, input };
+};
+
+const TWO_PARTS: ParsedMusic = {
+    tempo: 60,
+    timeSignature: '2/4',
+    parts: [
+        { partName: 'Soprano', measures: [{ notes: [{ pitch: 'C5', duration: 'quarter' }, { pitch: 'D5', duration: 'quarter' }] }] },
+        { partName: 'Bass', measures: [{ notes: [{ pitch: 'C3', duration: 'half' }] }] },
+    ],
+};
+
+const pitchesAndValues = (measures: Measure[]) =>
+    measures.map(measure => measure.notes.map(note => `${note.pitch} ${note.duration}${note.dots ? '.' : ''}`));
+
+describe('WebMidiEngine', () => {
+    beforeEach(() => {
+        vi.useFakeTimers({ toFake: ['setInterval', 'clearInterval', 'performance'] });
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('lists the devices once connected', async () => {
+        const { engine } = createEngine();
+        await engine.connect();
+
+        expect(engine.listOutputs()).toEqual([{ id: 'out-1', name: 'Fake Synth' }]);
+        expect(engine.listInputs()).toEqual([{ id: 'in-1', name: 'Fake Keyboard' }]);
+    });
+
+    it('schedules each part on its own channel, a lookahead ahead of time', async () => {
+        const { engine, output } = createEngine();
+        await engine.connect();
+        const onEnded = vi.fn();
+        const start = performance.now() + 50;
+
+        engine.play(TWO_PARTS, 60, output.id, onEnded, undefined, undefined, { Bass: { volume: 0, pan: -1, muted: false, soloed: false } });
+        const notes = () => output.sent.filter(message => (message.bytes[0] & 0xE0) === 0x80);
+
+        // Only what falls within the lookahead is sent straight away: both parts' first notes.
+        expect(notes()).toEqual([
+            { bytes: [0x90, 72, 100], timestamp: start },
+            { bytes: [0x91, 48, 100], timestamp: start },
+        ]);
+        expect(output.sent).toContainEqual({ bytes: [0xC0, 52], timestamp: start }); // choir aahs for voices
+        expect(output.sent).toContainEqual({ bytes: [0xB1, 10, 1], timestamp: undefined }); // the bass panned left
+
+        vi.advanceTimersByTime(2100);
+
+        expect(notes().slice(2)).toEqual([
+            { bytes: [0x80, 72, 0], timestamp: start + 999 },
+            { bytes: [0x90, 74, 100], timestamp: start + 1000 },
+            { bytes: [0x80, 74, 0], timestamp: start + 1999 },
+            { bytes: [0x81, 48, 0], timestamp: start + 1999 },
+        ]);
+        expect(onEnded).toHaveBeenCalledTimes(1);
+    });
+
+    it('plays a part chosen alone on the channel it is exported on', async () => {
+        const { engine, output } = createEngine();
+        await engine.connect();
+        engine.play(TWO_PARTS, 60, output.id, () => {}, 'Bass');
+        const exported = Array.from(new MIDIGenerator().generateMIDI(TWO_PARTS.parts, 60, 'Bass'));
+        const hasEvent = (bytes: number[]) => exported.some((_, index) => bytes.every((byte, offset) => exported[index + offset] === byte));
+
+        expect(output.sent.filter(message => (message.bytes[0] & 0xF0) === 0x90).map(message => message.bytes)).toEqual([[0x91, 48, 100]]);
+        expect(hasEvent([0x91, 48, 100])).toBe(true); // the Bass's note on, on channel 2 in both
+        engine.stop();
+    });
+
+    it('releases sounding notes when stopped', async () => {
+        const { engine, output } = createEngine();
+        await engine.connect();
+        engine.play(TWO_PARTS, 60, output.id, () => {});
+        output.sent = [];
+
+        engine.stop();
+
+        expect(output.sent.map(message => message.bytes)).toEqual([
+            [0x80, 72, 0], [0x81, 48, 0], [0xB0, 123, 0], [0xB1, 123, 0],
+        ]);
+    });
+
+    it('records note on and note off messages, timed from the first note', async () => {
+        const { engine, input } = createEngine();
+        await engine.connect();
+        engine.startRecording(input.id);
+
+        // At 120 BPM a beat is 500 ms; a note on with velocity 0 is a note off.
+        input.play([0x90, 60, 80], 1000);
+        input.play([0x80, 60, 0], 1490);
+        input.play([0x90, 64, 80], 1510);
+        input.play([0x90, 64, 0], 2490);
+        const measures = engine.stopRecording(120, '4/4', 0.25);
+
+        expect(engine.isRecording).toBe(false);
+        expect(pitchesAndValues(measures)).toEqual([['C4 quarter', 'E4 half', 'rest quarter']]);
+    });
+
+    it('quantises what was played to the chosen grid', async () => {
+        const { engine, input } = createEngine();
+        await engine.connect();
+        engine.startRecording(input.id);
+
+        input.play([0x90, 60, 80], 0);
+        input.play([0x80, 60, 0], 1400); // 1.4 beats at 60 BPM
+        input.play([0x90, 62, 80], 1520);
+        input.play([0x80, 62, 0], 2100);
+
+        expect(pitchesAndValues(engine.stopRecording(60, '4/4', 0.5))).toEqual([['C4 quarter.', 'D4 eighth', 'rest half']]);
+
+        // On a grid of whole beats the same note rounds down to a quarter.
+        engine.startRecording(input.id);
+        input.play([0x90, 60, 80], 0);
+        input.play([0x80, 60, 0], 1400);
+
+        expect(pitchesAndValues(engine.stopRecording(60, '4/4', 1))).toEqual([['C4 quarter', 'rest half.']]);
+    });
+
+    it('ends notes still held when recording stops', async () => {
+        const { engine, input } = createEngine();
+        await engine.connect();
+        vi.advanceTimersByTime(1000);
+        engine.startRecording(input.id);
+
+        input.play([0x90, 67, 80], performance.now());
+        vi.advanceTimersByTime(2000);
+
+        expect(pitchesAndValues(engine.stopRecording(60, '4/4', 1))).toEqual([['G4 half', 'rest half']]);
+    });
+});
+
+describe('mergeRecording', () => {
+    const recorded: Measure[] = [{ notes: [{ pitch: 'E4', duration: 'half' }, { pitch: 'F4', duration: 'half' }] }];
+
+    const score: ParsedMusic = {
+        tempo: 100,
+        timeSignature: '4/4',
+        parts: ['Soprano', 'Alto'].map(partName => ({
+            partName,
+            measures: [{ notes: [{ pitch: 'G4', duration: 'whole' }] }, { notes: [{ pitch: 'A4', duration: 'whole' }] }],
+        })),
+    };
+
+    it('replaces the selected part from the chosen measure and pads the others with rests', () => {
+        const merged = mergeRecording(score, [...recorded, ...recorded], 'alto', 1, 100);
+
+        expect(pitchesAndValues(merged.parts[1].measures)).toEqual([['G4 whole'], ['E4 half', 'F4 half'], ['E4 half', 'F4 half']]);
+        expect(pitchesAndValues(merged.parts[0].measures)).toEqual([['G4 whole'], ['A4 whole'], ['rest whole']]);
+        expect(score.parts[1].measures).toHaveLength(2); // the score itself is left alone
+    });
+
+    it('adds a part the score doesn\'t have yet', () => {
+        const merged = mergeRecording(score, recorded, 'Tenor', 0, 100);
+
+        expect(merged.parts.map(part => part.partName)).toEqual(['Soprano', 'Alto', 'Tenor']);
+        expect(pitchesAndValues(merged.parts[2].measures)).toEqual([['E4 half', 'F4 half'], ['rest whole']]);
+    });
+
+    it('starts a new score without one', () => {
+        expect(mergeRecording(null, recorded, 'Melody', 0, 90)).toEqual({ tempo: 90, timeSignature: '4/4', parts: [{ partName: 'Melody', measures: recorded }] });
+    });
+});
@@ -0,0 +1,304 @@
+import { Measure, ParsedMusic } from '../types';
+import { noteStarts, soundingNotes, totalBeats } from './noteDurations';
+import { channelForPart, pitchToMidiNumber, programForPart } from './midiGenerator';
+import { MIDIReader, MidiNoteSpan } from './midiReader';
+import { beatsToNoteValues } from './solfaConverter';
+import { MixSettings, isAudible, stripFor } from './mixer';
+import { PlaybackPosition, PlaybackPositionListener } from './soundEngine';
+
+export interface MidiDevice {
+    id: string;
+    name: string;
+}
+
+// Injected so the engine can run against a stand-in where the browser has no Web MIDI.
+export type MidiAccessRequest = () => Promise<MIDIAccess>;
+
+const requestBrowserAccess: MidiAccessRequest = () => navigator.requestMIDIAccess();
+
+// Events are handed to the output with timestamps this far ahead, so timer jitter doesn't reach the notes.
+const LOOKAHEAD_MS = 150;
+const SCHEDULE_INTERVAL_MS = 50;
+const START_DELAY_MS = 50;
+const VELOCITY = 100;
+const CHANNEL_VOLUME = 7;
+const CHANNEL_PAN = 10;
+const ALL_NOTES_OFF = 123;
+
+interface ScheduledMessage {
+    time: number; // ms from the start of playback
+    bytes: number[];
+}
+
+const toDevice = (port: MIDIPort): MidiDevice => ({ id: port.id, name: port.name || port.id });
+
+/**
+ * Plays scores on an external MIDI device and records what is played on a MIDI keyboard.
+ * Each part keeps the channel and program it gets in exported MIDI files.
+ */
+export class WebMidiEngine {
+    private access: MIDIAccess | null = null;
+    private output: MIDIOutput | null = null;
+    private timer: ReturnType<typeof setInterval> | null = null;
+    private channels = new Map<string, number>(); // part name -> channel, for the parts being played
+    private mix: MixSettings = {};
+    private onPositionCallback: PlaybackPositionListener | null = null;
+    private soundingKeys = new Set<string>(); // "channel:note" of notes sent on but not yet off
+
+    private input: MIDIInput | null = null;
+    private recordingStart: number | null = null;
+    private held = new Map<number, number>(); // note number -> time it was struck
+    private recorded: MidiNoteSpan[] = [];
+
+    constructor(private requestAccess: MidiAccessRequest = requestBrowserAccess) {}
+
+    static isSupported(): boolean {
+        return typeof navigator !== 'undefined' && 'requestMIDIAccess' in navigator;
+    }
+
+    get isConnected(): boolean {
+        return this.access !== null;
+    }
+
+    get isRecording(): boolean {
+        return this.input !== null;
+    }
+
+    /** Asks for MIDI access; `onDevicesChange` runs whenever a device is plugged in or removed. */
+    async connect(onDevicesChange?: () => void) {
+        if (!this.access) {
+            this.access = await this.requestAccess();
+        }
+        this.access.onstatechange = () => onDevicesChange?.();
+    }
+
+    listOutputs(): MidiDevice[] {
+        return this.access ? Array.from(this.access.outputs.values(), toDevice) : [];
+    }
+
+    listInputs(): MidiDevice[] {
+        return this.access ? Array.from(this.access.inputs.values(), toDevice) : [];
+    }
+
+    /** Plays the chosen part (or all of them) on an output device, optionally just one named section. */
+    play(music: ParsedMusic, tempo: number, outputId: string, onEnded: () => void, targetPartName?: string, sectionName?: string, mix: MixSettings = this.mix) {
+        this.stop();
+        this.mix = mix;
+
+        const output = this.access?.outputs.get(outputId);
+        if (!output) {
+            console.error(`MIDI output ${outputId} is not available.`);
+            onEnded();
+            return;
+        }
+
+        const section = sectionName && sectionName.toLowerCase() !== 'all'
+            ? music.sections?.find(s => s.name.toLowerCase() === sectionName.toLowerCase())
+            : undefined;
+        const msPerBeat = 60000 / tempo;
+        const messages: ScheduledMessage[] = [];
+        const positions: PlaybackPosition[] = [];
+        let duration = 0;
+
+        music.parts.forEach((part, index) => {
+            if (targetPartName && targetPartName.toLowerCase() !== 'all' && part.partName.toLowerCase() !== targetPartName.toLowerCase()) {
+                return;
+            }
+            const channel = channelForPart(index);
+            const measures = section ? part.measures.slice(section.startMeasure, section.endMeasure) : part.measures;
+            const notes = measures.flatMap(m => m.notes);
+            this.channels.set(part.partName, channel);
+            messages.push({ time: 0, bytes: [0xC0 | channel, programForPart(part.partName)] });
+
+            soundingNotes(notes).forEach(note => {
+                const midiNumber = pitchToMidiNumber(note.pitch);
+                if (midiNumber === null) return;
+                // Offs a hair early, so a repeated note is released before it is struck again.
+                messages.push({ time: note.startBeat * msPerBeat, bytes: [0x90 | channel, midiNumber, VELOCITY] });
+                messages.push({ time: (note.startBeat + note.beats) * msPerBeat - 1, bytes: [0x80 | channel, midiNumber, 0] });
+            });
+            noteStarts(measures).forEach(({ measureIndex, noteIndex, startBeat }) => {
+                const time = startBeat * msPerBeat / 1000;
+                positions.push({ partName: part.partName, measureIndex: measureIndex + (section?.startMeasure ?? 0), noteIndex, time });
+            });
+            duration = Math.max(duration, totalBeats(notes) * msPerBeat);
+        });
+
+        if (messages.length === 0) {
+            onEnded();
+            return;
+        }
+        messages.sort((a, b) => a.time - b.time);
+        positions.sort((a, b) => a.time - b.time);
+
+        this.output = output;
+        this.applyMix();
+        const start = performance.now() + START_DELAY_MS;
+        let next = 0;
+        let nextPosition = 0;
+        const schedule = () => {
+            const elapsed = performance.now() - start;
+            for (; next < messages.length && messages[next].time <= elapsed + LOOKAHEAD_MS; next++) {
+                this.send(messages[next].bytes, start + messages[next].time);
+            }
+            // Positions are reported when their notes sound, not when they are queued.
+            for (; nextPosition < positions.length && positions[nextPosition].time * 1000 <= elapsed; nextPosition++) {
+                this.onPositionCallback?.(positions[nextPosition]);
+            }
+            if (next >= messages.length && performance.now() >= start + duration) {
+                this.stop();
+                onEnded();
+            }
+        };
+        schedule();
+        this.timer = setInterval(schedule, SCHEDULE_INTERVAL_MS);
+    }
+
+    stop() {
+        if (this.timer !== null) {
+            clearInterval(this.timer);
+            this.timer = null;
+        }
+        if (!this.output) return;
+
+        // Drop anything still queued (where the browser supports it), then release whatever is sounding.
+        (this.output as MIDIOutput & { clear?: () => void }).clear?.();
+        for (const key of this.soundingKeys) {
+            const [channel, midiNumber] = key.split(':').map(Number);
+            this.output.send([0x80 | channel, midiNumber, 0]);
+        }
+        for (const channel of this.channels.values()) {
+            this.output.send([0xB0 | channel, ALL_NOTES_OFF, 0]);
+        }
+        this.soundingKeys.clear();
+        this.channels.clear();
+        this.output = null;
+    }
+
+    /** Listens for playback positions, as `SoundEngine.setPositionListener` does. */
+    setPositionListener(listener: PlaybackPositionListener | null) {
+        this.onPositionCallback = listener;
+    }
+
+    /** Changes the mix through channel volume and pan, taking effect at once if something is playing. */
+    setMix(mix: MixSettings) {
+        this.mix = mix;
+        this.applyMix();
+    }
+
+    private applyMix() {
+        if (!this.output) return;
+        const partNames = Array.from(this.channels.keys());
+        for (const [partName, channel] of this.channels) {
+            const strip = stripFor(this.mix, partName);
+            // Channel volume follows a 40 log10 curve, so 127 is full level and every -6 dB roughly halves it.
+            const volume = isAudible(this.mix, partName, partNames) ? Math.min(127, Math.round(127 * 10 ** (strip.volume / 40))) : 0;
+            this.output.send([0xB0 | channel, CHANNEL_VOLUME, volume]);
+            this.output.send([0xB0 | channel, CHANNEL_PAN, Math.round(64 + strip.pan * 63)]);
+        }
+    }
+
+    /** Starts collecting the notes played on an input device. Time starts at the first note struck. */
+    startRecording(inputId: string) {
+        const input = this.access?.inputs.get(inputId);
+        if (!input) {
+            throw new Error(`MIDI input ${inputId} is not available.`);
+        }
+        this.stopListening();
+        this.recordingStart = null;
+        this.held.clear();
+        this.recorded = [];
+        this.input = input;
+        input.addEventListener('midimessage', this.handleMessage);
+    }
+
+    /** Stops recording and quantises what was played to `grid` (in beats) at the given tempo and time signature. */
+    stopRecording(tempo: number, timeSignature: string, grid: number): Measure[] {
+        this.stopListening();
+        const now = performance.now();
+        for (const [midiNumber, struck] of this.held) {
+            this.recordNote(midiNumber, struck, now);
+        }
+        this.held.clear();
+
+        if (this.recorded.length === 0) return [];
+        // Milliseconds serve as ticks, so a quarter note lasts one beat at the recording tempo.
+        return new MIDIReader().notesToMeasures(this.recorded, 60000 / tempo, timeSignature, { grid });
+    }
+
+    private stopListening() {
+        this.input?.removeEventListener('midimessage', this.handleMessage);
+        this.input = null;
+    }
+
+    private handleMessage = (event: Event) => {
+        const { data, timeStamp } = event as MIDIMessageEvent;
+        if (!data || data.length < 3) return;
+
+        const status = data[0] & 0xF0;
+        const midiNumber = data[1];
+        if (status === 0x90 && data[2] > 0) {
+            this.recordingStart ??= timeStamp;
+            this.held.set(midiNumber, timeStamp);
+        } else if (status === 0x80 || status === 0x90) {
+            const struck = this.held.get(midiNumber);
+            if (struck === undefined) return;
+            this.recordNote(midiNumber, struck, timeStamp);
+            this.held.delete(midiNumber);
+        }
+    };
+
+    private recordNote(midiNumber: number, struck: number, released: number) {
+        const start = this.recordingStart ?? struck;
+        this.recorded.push({ startTick: struck - start, endTick: released - start, midiNumber });
+    }
+
+    private send(bytes: number[], timestamp: number) {
+        if (!this.output) return;
+        const [status, midiNumber] = bytes;
+        const key = `${status & 0x0F}:${midiNumber}`;
+        if ((status & 0xF0) === 0x90) this.soundingKeys.add(key);
+        if ((status & 0xF0) === 0x80) this.soundingKeys.delete(key);
+        this.output.send(bytes, timestamp);
+    }
+}
+
+const restMeasure = (timeSignature: string): Measure => {
+    const [beats, unit] = timeSignature.split('/').map(Number);
+    return { notes: beatsToNoteValues(beats * 4 / unit || 4).map(value => ({ pitch: 'rest', ...value })) };
+};
+
+/**
+ * Writes recorded measures into a part of the score from `startMeasure` on, replacing what was
+ * there. The part is added when the score has none by that name, and every part is padded with
+ * rests to the same length. Without a score, the recording becomes a new one.
+ */
+export const mergeRecording = (
+    music: ParsedMusic | null,
+    measures: Measure[],
+    partName: string,
+    startMeasure: number,
+    tempo: number
+): ParsedMusic => {
+    if (!music) {
+        return { tempo, timeSignature: '4/4', parts: [{ partName, measures }] };
+    }
+
+    let parts = music.parts;
+    if (!parts.some(part => part.partName.toLowerCase() === partName.toLowerCase())) {
+        parts = [...parts, { partName, measures: [] }];
+    }
+    const length = Math.max(startMeasure + measures.length, ...parts.map(part => part.measures.length));
+
+    return {
+        ...music,
+        parts: parts.map(part => {
+            const merged = [...part.measures];
+            while (merged.length < length) merged.push(restMeasure(music.timeSignature));
+            if (part.partName.toLowerCase() === partName.toLowerCase()) {
+                merged.splice(startMeasure, measures.length, ...measures);
+            }
+            return { ...part, measures: merged };
+        }),
+    };
+};
@@ -1,10 +1,23 @@
+export interface Tuplet {
+  actual: number; // notes played...
+  normal: number; // ...in the time of this many, e.g. 3 in the time of 2 for a triplet
+}
+
 export interface Note {
   pitch: string; // e.g., "C4", "G#5", "rest"
+  chord?: string[]; // further pitches struck together with `pitch` for the same duration
   duration: 'whole' | 'half' | 'quarter' | 'eighth' | 'sixteenth';
+  dots?: number; // 1 for a dotted note (x1.5), 2 for double-dotted (x1.75)
+  tuplet?: Tuplet;
+  tie?: boolean; // held into the next note of the same pitch, which is not struck again
+  tiedPitches?: string[]; // with `tie` on a chord, the only pitches held; absent when every pitch is
+  lyric?: string[]; // syllable sung on this note, one entry per verse; a trailing "-" joins it to the next
 }
 
 export interface Measure {
   notes: Note[];
+  confidence?: number; // 0-1, how sure the transcriber was of this measure; absent when it was read exactly
+  ambiguity?: string; // what was unclear, e.g. "unclear whether dot is rest or dotted note"
 }
 
 export interface Part {
@@ -12,8 +25,15 @@ export interface Part {
   measures: Measure[];
 }
 
+export interface Section {
+  name: string; // e.g. "Verse 1", "Chorus"
+  startMeasure: number; // 0-based index of the first measure
+  endMeasure: number; // exclusive
+}
+
 export interface ParsedMusic {
   tempo: number;
   timeSignature: string;
   parts: Part[];
+  sections?: Section[]; // named measure ranges, in score order
 }